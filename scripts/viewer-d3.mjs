@@ -0,0 +1,23 @@
+// Concatenate the UMD builds of the d3 modules the default viewer uses into
+// <outDir>/viewer-d3.js, which --html-inline embeds (see src/core/template.ts).
+// Usage: node scripts/viewer-d3.mjs <outDir>
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+// dependencies first: each build extends the global `d3` the previous ones set
+const MODULES = [
+  'd3-dispatch',
+  'd3-timer',
+  'd3-ease',
+  'd3-color',
+  'd3-interpolate',
+  'd3-selection',
+  'd3-transition',
+  'd3-hierarchy',
+];
+
+const outDir = process.argv[2] ?? 'dist';
+const bundle = MODULES.map((m) =>
+  readFileSync(join('node_modules', m, 'dist', `${m}.min.js`), 'utf8'),
+).join('\n');
+writeFileSync(join(outDir, 'viewer-d3.js'), bundle);
@@ -1,45 +1,123 @@
 #!/usr/bin/env node
 import { mkdirSync, writeFileSync } from 'fs';
-import { join, resolve as resolvePath } from 'path';
-import { Command } from 'commander';
+import { join, resolve as resolvePath, sep } from 'path';
+import { Command, CommanderError } from 'commander';
 import { createReporter } from './core/reporter';
-import { scanDirectory } from './core/scan';
-import { type Snapshot } from './core/model';
+import { createScanner, type Scanner } from './core/scan';
+import { watchTree } from './core/watch';
+import { startPreviewServer, type PreviewServer } from './core/serve';
+import { type DirNode, type Snapshot } from './core/model';
+import { createSnapshot, readSnapshot } from './core/snapshot';
+import { formatBytes } from './core/metrics';
+import { diffSnapshots } from './core/diff';
+import {
+  errorMessage,
+  exitCodeOf,
+  IoError,
+  LsphereError,
+  UsageError,
+} from './core/errors';
 
 import kleur from 'kleur';
 
-import { resolveOptions, type RawCLI, type Options } from './core/options';
+import {
+  DEFAULTS,
+  GIT_COLOR_MODES,
+  resolveOptions,
+  type OptionIssue,
+  type RawCLI,
+  type Options,
+} from './core/options';
+import { findConfigFile, loadConfig, type ConfigFile } from './core/config';
 
-import { describeTemplate, applyTemplate, loadTemplate } from './core/template';
+import {
+  describeTemplate,
+  inlineTemplateAssets,
+  loadTemplate,
+} from './core/template';
 import { renderSvgFromSnapshot } from './render/svg';
+import { renderHtmlFromSnapshot } from './render/html';
+import { renderPngFromSvg } from './render/png';
+import { collapseSnapshot } from './render/collapse';
+import { buildReport, formatReport } from './render/report';
+import { createDiffStyle } from './render/style';
 
 const program = new Command();
 
 program
   .name('lsphere')
   .description('lsphere demo: generate a simple SVG with a single circle')
-  .argument('[path]', 'target directory', '.')
+  .argument('[path]', 'target directory (default: .)')
   .option('-o, --out <dir>', 'output directory')
   // outputs
   .option('--svg', 'emit SVG')
   .option('--html', 'emit HTML viewer')
   .option('--json', 'emit JSON metadata')
-  .option('--png', 'emit PNG (future)')
+  .option('--png', 'emit PNG (rasterized SVG)')
   .option('--composite', 'enable svg+json+html')
+  .option(
+    '--html-inline',
+    'single-file HTML with the snapshot and template assets embedded',
+  )
+  .option('--png-scale <n>', 'PNG scale factor (default: 1)')
+  .option('--png-dpi <n>', 'PNG resolution in dpi (overrides --png-scale)')
+  // canvas
+  .option('--width <px>', 'canvas width incl. legend (default: 1100)')
+  .option('--height <px>', 'canvas height incl. title (default: 900)')
+  .option('--aspect <ratio>', 'aspect ratio, e.g. 16:9 or 1.5 (derives height)')
+  .option('--margin <px>', 'outer margin (default: 24)')
+  .option('--padding <px>', 'pack padding between circles (default: 2)')
+  .option('--legend <placement>', 'legend placement: right|bottom|none')
   // behavior
   .option('-d, --depth <n>', 'max recursion depth (negative = unlimited)')
+  .option(
+    '--max-entries <n>',
+    'stop with an error after scanning this many entries (default: no limit)',
+  )
+  .option(
+    '--no-cache',
+    'rescan everything, do not read or write the scan cache',
+  )
+  .option(
+    '--cache-dir <dir>',
+    'scan cache location (default: the user cache dir, e.g. ~/.cache/lsphere)',
+  )
   .option('--dirs-only', 'render only directories')
   .option('--no-dirs', 'hide directory names')
-  .option('--bg <color>', 'background color')
   .option(
-    '--palette <name>',
-    'palette name: category10|tableau10|set3|paired|dark2|accent|pastel1|pastel2|set1|set2',
+    '--max-children <n>',
+    'merge the smallest files of bigger directories into "+N more"',
+  )
+  .option(
+    '--min-radius <px>',
+    'merge files drawn smaller than this into "+N more" (default: 0 = off)',
+  )
+  .option(
+    '--dir-stats',
+    'add totals to directory labels, e.g. "src — 1.2 MB, 340 files"',
+  )
+  .option('--size-by <metric>', 'circle size metric: bytes|lines|files|uniform')
+  .option('--scale <kind>', 'size scaling: log|sqrt|linear (default: log)')
+  .option('--min-weight <n>', 'pack weight of the smallest file (default: 1)')
+  .option('--max-weight <n>', 'pack weight of the largest file (default: 100)')
+  .option('--theme <name>', 'colors: light|dark|high-contrast|print')
+  .option('--bg <color>', 'background color (default: from the theme)')
+  .option(
+    '--palette <spec>',
+    'scheme (dark2, tableau10, …), ramp (viridis, turbo, …), auto, "#hex,#hex,…" or a palette file',
   )
   .option(
     '--ext-colors <map>',
     'extension color overrides, e.g. ".ts=#3178c6,.js=#f7df1e"',
   )
-  .option('--contrast <mode>', 'text contrast: auto|on|off')
+  .option(
+    '--color-by <mode>',
+    'file colors: ext|language|category|age|churn|author',
+  )
+  .option(
+    '--contrast <mode>',
+    'file label contrast: auto (black/white per fill)|on (+outline)|off',
+  )
   // ignoring
   .option(
     '--ignore <patterns>',
@@ -47,6 +125,16 @@ program
   )
   .option('--ignore-file <file>', 'ignore file path (default: .lsignore)')
   .option('--no-ignore-file', 'disable reading any ignore file')
+  .option('--gitignore', 'honor .gitignore files (nested) like git does')
+  .option('--git-tracked', 'only include files tracked by git')
+  .option(
+    '--symlinks <mode>',
+    'symlinks: skip|show (as link nodes)|follow (scan targets, cycle-safe)',
+  )
+  .option(
+    '--symlink-root <dir>',
+    'with --symlinks follow: only follow links resolving inside <dir>',
+  )
   // html template
   .option('--html-template <src>', 'default | local path | http(s) url')
   .option(
@@ -56,105 +144,396 @@ program
   .option('--no-network', 'forbid network fetches for template')
   .option('--template-timeout <ms>', 'network timeout in ms for template fetch')
   .option('--template-hash <sha256>', 'optional integrity check for template')
+  // snapshots
+  .option(
+    '--from-snapshot <file>',
+    'render an existing circle.json instead of scanning',
+  )
+  .option(
+    '--compare <snapshot>',
+    'diff against an earlier circle.json (writes circle.diff.svg/json)',
+  )
+  .option('--diff-color <mode>', 'diff colors: change|delta (default: change)')
+  // config
+  .option(
+    '--config <file>',
+    'config file (default: ./lsphere.config.json or ./config/defaults.json)',
+  )
+  // report
+  .option(
+    '--report',
+    'print largest files/dirs, extensions and depths instead of writing files',
+  )
+  .option('--report-format <fmt>', 'report format: table|json|csv|markdown')
+  .option('--report-top <n>', 'rows per ranking in the report (default: 10)')
+  .option(
+    '--watch',
+    'keep running: rescan changed paths and rewrite the outputs (Ctrl+C to stop)',
+  )
+  .option(
+    '--serve [port]',
+    'serve the outputs on http://127.0.0.1:<port> (default: 4321), reloading pages on rewrites',
+  )
+  .option('--print-config', 'print the resolved options as JSON and exit')
+  .option('--strict', 'treat option warnings as errors')
+  .option(
+    '--json-errors',
+    'print warnings and errors as JSON lines on stderr (failure: type, exit code, message)',
+  )
   // verbosity
   .option('-v, --verbose', 'verbose output (default: on)')
   .option('-q, --quiet', 'quiet mode (alias for --no-verbose)')
-  .action(async (pathArg: string, opts: RawCLI) => {
-    const raw: RawCLI = { ...opts, targetPath: pathArg };
-    const options: Options = resolveOptions(raw);
-
-    const reporter = createReporter({
-      verbose: options.verbose,
-      scope: 'lsphere:',
-    });
-
-    if (options.verbose) printSummary(options, reporter);
-
-    // ensure we actually have something to do
-    if (
-      !options.outputs.svg &&
-      !options.outputs.json &&
-      !options.outputs.html &&
-      !options.outputs.png
-    ) {
-      reporter.error(
-        '✖ No outputs selected (svg/json/html/png are all disabled)',
-      );
-      reporter.exit(2);
-    }
+  .action(async (pathArg: string | undefined, opts: CommanderOpts) => {
+    await run(toRawCLI(pathArg, opts));
+  });
 
-    let tree;
-    try {
-      tree = await scanDirectory(options, reporter);
-    } catch (err: unknown) {
-      reporter.error(String((err as Error)?.message ?? err));
-      reporter.exit(3); // scan error
+// commander's own usage errors (unknown flags, missing values) end in fail()
+// like ours; --help and --version still exit 0
+program
+  .exitOverride()
+  .configureOutput({ outputError: () => undefined })
+  .parseAsync(process.argv)
+  .catch((err: unknown) => {
+    if (err instanceof CommanderError) {
+      if (err.exitCode === 0) process.exit(0);
+      err = new UsageError(err.message.replace(/^error: /, ''));
     }
-    if (!tree) return;
-
-    const snapshot: Snapshot = {
-      meta: {
-        tool: 'lsphere',
-        version: '0.0.0', // TODO: optionally read from package.json later
-        generatedAt: new Date().toISOString(),
-        root: resolvePath(options.targetPath),
-        options: {
-          depth: options.depth,
-          dirsOnly: options.dirsOnly,
-          noDirs: options.noDirs,
-          bgColor: options.bgColor,
-          palette: options.palette,
-          contrast: options.contrast,
-        },
-      },
-      tree,
-    };
-
-    const outDir = options.outDir;
+    fail(err, process.argv.includes('--json-errors'));
+  });
+
+// ---------- helpers ----------
+// Everything the CLI does; failures are thrown (see core/errors) and end in fail()
+async function run(raw: RawCLI) {
+  // built-in defaults < project config < flags
+  // paths in --config are relative to that file, in a found one to the cwd
+  const configPath = findConfigFile(raw.config);
+  const config: ConfigFile = configPath
+    ? loadConfig(configPath, raw.config ? undefined : process.cwd())
+    : {};
+  const issues: OptionIssue[] = [];
+  const options: Options = resolveOptions(raw, config, issues);
+
+  // a report owns stdout: progress logs stay quiet, warnings go to stderr
+  const reporter = createReporter({
+    verbose: options.verbose && !options.report,
+    scope: 'lsphere:',
+    json: raw.jsonErrors,
+  });
+
+  for (const { level, flag, message } of issues)
+    if (level === 'warning') reporter.warn(`${flag}: ${message}`);
+  const invalid = issues.filter((i) => i.level === 'error');
+  if (invalid.length)
+    throw new UsageError(
+      'invalid options',
+      invalid.map((i) => `${i.flag}: ${i.message}`),
+    );
+
+  if (raw.printConfig) {
+    reporter.print(
+      JSON.stringify({ configFile: configPath, options }, null, 2),
+    );
+    return;
+  }
+
+  if (options.verbose && !options.report)
+    printSummary(options, configPath, reporter);
+
+  // ensure we actually have something to do
+  if (
+    !options.report &&
+    !options.outputs.svg &&
+    !options.outputs.json &&
+    !options.outputs.html &&
+    !options.outputs.png
+  )
+    throw new UsageError(
+      'No outputs selected (svg/json/html/png are all disabled)',
+    );
+
+  let snapshot: Snapshot;
+  let scanner: Scanner | undefined;
+  if (options.fromSnapshot) {
+    // re-render an archived snapshot, no scan
+    snapshot = readSnapshot(options.fromSnapshot, reporter.warn);
+    warnMissingData(snapshot, options, reporter);
+  } else {
+    scanner = await createScanner(options, reporter);
+    snapshot = createSnapshot(await scanner.scan(), options);
+  }
+
+  const written = await writeOutputs(snapshot, options, reporter);
+
+  let server: PreviewServer | null = null;
+  if (options.serve !== null) {
+    if (written) server = await serveOutputs(written, options, reporter);
+    else reporter.warn('--serve: nothing to serve with --report');
+  }
+
+  if (options.watch) {
+    if (scanner)
+      watchAndRender(scanner, snapshot.tree, options, server, reporter);
+    else reporter.warn('--watch: nothing to watch with --from-snapshot');
+  }
+}
+
+// Report, or every selected output file (+ the diff with --compare).
+// Returns the snapshot the files show (null for a report).
+async function writeOutputs(
+  snapshot: Snapshot,
+  options: Options,
+  reporter: ReturnType<typeof createReporter>,
+): Promise<Snapshot | null> {
+  if (options.report) {
+    const report = buildReport(snapshot.tree, options.reportTop);
+    reporter.print(formatReport(report, options.reportFormat));
+    return null;
+  }
+
+  // huge trees: small files become "+N more" nodes in every output
+  snapshot = collapseSnapshot(snapshot, options);
+
+  const outDir = options.outDir;
+  try {
     mkdirSync(outDir, { recursive: true });
+  } catch (err: unknown) {
+    throw new IoError(`cannot create ${outDir} (${errorMessage(err)})`);
+  }
 
-    // --- Demo circle SVG (if requested) ---
-    if (options.outputs.svg) {
-      const svgPath = join(outDir, 'circle.svg');
-      const svg = renderSvgFromSnapshot(snapshot, options);
-      writeFileSync(svgPath, svg, 'utf8');
-      reporter.success(`wrote SVG → ${kleur.bold(svgPath)}`);
-    }
+  // --- SVG (also the source for PNG) ---
+  const svg =
+    options.outputs.svg || options.outputs.png
+      ? renderSvgFromSnapshot(snapshot, options)
+      : null;
+  if (svg && options.outputs.svg) {
+    const svgPath = join(outDir, 'circle.svg');
+    writeOutput(svgPath, svg);
+    reporter.success(`wrote SVG → ${kleur.bold(svgPath)}`);
+  }
+
+  // --- PNG (rasterized SVG) ---
+  if (svg && options.outputs.png) {
+    const pngPath = join(outDir, 'circle.png');
+    writeOutput(pngPath, renderPngFromSvg(svg, options.pngScale));
+    reporter.success(
+      `wrote PNG → ${kleur.bold(pngPath)} (×${options.pngScale})`,
+    );
+  }
+
+  // --- Demo JSON (if requested or implied by HTML) ---
+  let jsonPath: string | null = null;
+  if (options.outputs.json) {
+    jsonPath = join(outDir, 'circle.json');
+
+    writeOutput(jsonPath, JSON.stringify(snapshot, null, 2));
+    reporter.success(`wrote JSON → ${kleur.bold(jsonPath)}`);
+  }
 
-    // --- Demo JSON (if requested or implied by HTML) ---
-    let jsonPath: string | null = null;
-    if (options.outputs.json) {
-      jsonPath = join(outDir, 'circle.json');
+  // --- HTML (template-driven; JSON is guaranteed on by resolver unless inline) ---
+  if (options.outputs.html) {
+    const htmlPath = join(outDir, 'circle.html');
+    let templateStr = await loadTemplate(options.htmlTemplate);
+    if (options.htmlInline)
+      templateStr = await inlineTemplateAssets(
+        templateStr,
+        options.htmlTemplate,
+        reporter,
+      );
+    const html = renderHtmlFromSnapshot(templateStr, snapshot, options);
+    writeOutput(htmlPath, html);
+    reporter.success(`wrote HTML → ${kleur.bold(htmlPath)}`);
+  }
+
+  // --- Diff against an earlier snapshot ---
+  if (options.compare) {
+    const base = readSnapshot(options.compare, reporter.warn);
+    const diff = diffSnapshots(base, snapshot);
+    const merged: Snapshot = { meta: snapshot.meta, tree: diff.tree };
+    const diffSvg = renderSvgFromSnapshot(
+      merged,
+      options,
+      createDiffStyle(diff, merged, options),
+    );
+    const diffSvgPath = join(outDir, 'circle.diff.svg');
+    writeOutput(diffSvgPath, diffSvg);
+    reporter.success(`wrote diff SVG → ${kleur.bold(diffSvgPath)}`);
 
-      writeFileSync(jsonPath, JSON.stringify(snapshot, null, 2), 'utf8');
-      reporter.success(`wrote JSON → ${kleur.bold(jsonPath)}`);
+    if (options.outputs.png) {
+      const diffPngPath = join(outDir, 'circle.diff.png');
+      writeOutput(diffPngPath, renderPngFromSvg(diffSvg, options.pngScale));
+      reporter.success(`wrote diff PNG → ${kleur.bold(diffPngPath)}`);
     }
 
-    // --- HTML (template-driven; JSON is guaranteed on by resolver when html=true) ---
-    if (options.outputs.html) {
-      const htmlPath = join(outDir, 'circle.html');
-      const templateStr = await loadTemplate(options.htmlTemplate, reporter);
-      const html = applyTemplate(templateStr, {
-        JSON_PATH: 'circle.json',
-        BG: options.bgColor,
-        PALETTE: options.palette,
-      });
-      writeFileSync(htmlPath, html, 'utf8');
-      reporter.success(`wrote HTML → ${kleur.bold(htmlPath)}`);
+    const diffJsonPath = join(outDir, 'circle.diff.json');
+    writeOutput(diffJsonPath, JSON.stringify(diff, null, 2));
+    reporter.success(`wrote diff JSON → ${kleur.bold(diffJsonPath)}`);
+
+    const { summary: d } = diff;
+    reporter.info(
+      `diff: +${d.added} added, -${d.removed} removed, ${d.grown} grown, ${d.shrunk} shrunk (${formatBytes(d.bytesBefore)} → ${formatBytes(d.bytesAfter)})`,
+    );
+  }
+  return snapshot;
+}
+
+function writeOutput(file: string, data: string | Buffer) {
+  try {
+    writeFileSync(file, data);
+  } catch (err: unknown) {
+    throw new IoError(`cannot write ${file} (${errorMessage(err)})`);
+  }
+}
+
+// The one place failures become exit codes (see core/errors); --json-errors
+// prints them as a single JSON line on stderr instead
+function fail(err: unknown, json: boolean): never {
+  const code = exitCodeOf(err);
+  const details = err instanceof LsphereError ? err.details : [];
+  if (json) {
+    const type = err instanceof Error ? err.name : 'Error';
+    process.stderr.write(
+      `${JSON.stringify({ error: { type, exitCode: code, message: errorMessage(err), details } })}\n`,
+    );
+    process.exit(code);
+  }
+  const reporter = createReporter({ verbose: false, scope: 'lsphere:' });
+  for (const d of details) reporter.error(d);
+  return reporter.exit(code, errorMessage(err));
+}
+
+// --serve: the output dir on localhost; keeps the process alive
+async function serveOutputs(
+  snapshot: Snapshot,
+  options: Options,
+  reporter: ReturnType<typeof createReporter>,
+): Promise<PreviewServer> {
+  const server = await startPreviewServer(
+    options.outDir,
+    options.serve ?? DEFAULTS.servePort,
+    reporter,
+  );
+  server.publish(snapshot);
+  if (!options.outputs.html)
+    reporter.warn('--serve: no HTML output, only the files + /api/snapshot');
+  reporter.info(`serving ${kleur.bold(server.url)} (Ctrl+C to stop)`);
+  return server;
+}
+
+// --watch: rescan what changed and write the outputs again, until interrupted
+function watchAndRender(
+  scanner: Scanner,
+  tree: DirNode,
+  options: Options,
+  server: PreviewServer | null,
+  reporter: ReturnType<typeof createReporter>,
+) {
+  const rootAbs = resolvePath(options.targetPath);
+  // our own writes must not trigger renders
+  const own = [
+    options.outDir,
+    options.cacheDir,
+    ...(options.htmlTemplate.kind === 'remote'
+      ? [options.htmlTemplate.cacheDir]
+      : []),
+  ].map((d) => resolvePath(d));
+  const keep = (rel: string) => {
+    const abs = join(rootAbs, rel);
+    return (
+      !own.some((d) => abs === d || abs.startsWith(`${d}${sep}`)) &&
+      scanner.affects(rel)
+    );
+  };
+
+  // one rescan at a time; changes meanwhile make the next batch
+  let queued: string[] = [];
+  let busy = false;
+  const flush = async () => {
+    if (busy || !queued.length) return;
+    busy = true;
+    const changed = queued;
+    queued = [];
+    reporter.info(
+      `changed: ${changed.length <= 3 ? changed.map((c) => c || '.').join(', ') : `${changed.length} paths`}`,
+    );
+    try {
+      tree = await scanner.rescan(tree, changed);
+      watcher.setDirs(dirPaths(tree));
+      const written = await writeOutputs(
+        createSnapshot(tree, options),
+        options,
+        reporter,
+      );
+      if (written) server?.publish(written);
+    } catch (err: unknown) {
+      // keep watching: the next change may fix it
+      reporter.error(errorMessage(err));
+      if (err instanceof LsphereError)
+        for (const d of err.details) reporter.error(d);
     }
-  });
+    busy = false;
+    void flush();
+  };
 
-program.parseAsync(process.argv);
+  const watcher = watchTree(
+    rootAbs,
+    keep,
+    (changed) => {
+      queued.push(...changed);
+      void flush();
+    },
+    reporter,
+  );
+  watcher.setDirs(dirPaths(tree));
+  reporter.info(`watching ${kleur.bold(rootAbs)} for changes (Ctrl+C to stop)`);
+}
 
-// ---------- helpers ----------
-function printSummary(o: Options, reporter: ReturnType<typeof createReporter>) {
+function dirPaths(tree: DirNode): string[] {
+  const out: string[] = [];
+  (function walk(d: DirNode) {
+    out.push(d.path);
+    for (const c of d.children) if (c.kind === 'dir') walk(c);
+  })(tree);
+  return out;
+}
+
+// commander stores `--no-x` as x=false (and x=true when the flag is absent)
+type CommanderOpts = Omit<RawCLI, 'ignoreFile'> & {
+  dirs?: boolean;
+  network?: boolean;
+  cache?: boolean;
+  ignoreFile?: string | false;
+};
+
+// Flags that were not given stay undefined so the config file can fill them
+function toRawCLI(pathArg: string | undefined, opts: CommanderOpts): RawCLI {
+  const { dirs, network, cache, ignoreFile, ...rest } = opts;
+  return {
+    ...rest,
+    targetPath: pathArg,
+    noDirs: dirs === false ? true : undefined,
+    noNetwork: network === false ? true : undefined,
+    noCache: cache === false ? true : undefined,
+    noIgnoreFile: ignoreFile === false ? true : undefined,
+    ignoreFile: typeof ignoreFile === 'string' ? ignoreFile : undefined,
+  };
+}
+
+function printSummary(
+  o: Options,
+  configPath: string | null,
+  reporter: ReturnType<typeof createReporter>,
+) {
   const title = kleur.bold().white('lsphere — execution summary');
-  const path = kleur.bold(resolvePath(o.targetPath));
+  const path = o.fromSnapshot
+    ? `${kleur.bold(o.fromSnapshot)} ${kleur.gray('(snapshot, no scan)')}`
+    : kleur.bold(resolvePath(o.targetPath));
   const out = kleur.bold(o.outDir);
   const outputs = [
     o.outputs.svg ? kleur.green('svg') : kleur.gray('svg'),
     o.outputs.json ? kleur.green('json') : kleur.gray('json'),
-    o.outputs.html ? kleur.green('html') : kleur.gray('html'),
+    o.outputs.html
+      ? kleur.green(o.htmlInline ? 'html (inline)' : 'html')
+      : kleur.gray('html'),
     o.outputs.png ? kleur.green('png') : kleur.gray('png'),
   ].join(kleur.gray(' • '));
   const depthStr = o.depth < 0 ? 'unlimited' : String(o.depth);
@@ -165,23 +544,82 @@ function printSummary(o: Options, reporter: ReturnType<typeof createReporter>) {
 
   reporter.info(title);
   reporter.info(`${kleur.white('target')}     ${path}`);
+  reporter.info(
+    `${kleur.white('config')}     ${configPath ?? kleur.gray('none')}`,
+  );
   reporter.info(`${kleur.white('out dir')}    ${out}`);
   reporter.info(`${kleur.white('outputs')}    ${outputs}`);
-  reporter.info(`${kleur.white('depth')}      ${depthStr}`);
+  reporter.info(
+    `${kleur.white('depth')}      ${depthStr}${o.maxEntries !== null ? `, max ${o.maxEntries} entries` : ''}`,
+  );
+  if (!o.fromSnapshot)
+    reporter.info(
+      `${kleur.white('scan cache')} ${o.cache ? o.cacheDir : kleur.gray('off')}`,
+    );
   reporter.info(
     `${kleur.white('mode')}       ${o.dirsOnly ? 'dirs-only' : 'normal'}`,
   );
+  if (o.maxChildren !== null || o.minRadius > 0)
+    reporter.info(
+      `${kleur.white('collapse')}   ${[
+        o.maxChildren !== null ? `max ${o.maxChildren} per dir` : '',
+        o.minRadius > 0 ? `files under ${o.minRadius}px` : '',
+      ]
+        .filter(Boolean)
+        .join(', ')} → "+N more"`,
+    );
+  reporter.info(
+    `${kleur.white('size by')}    ${o.sizeBy} (${o.scale} ${o.minWeight}..${o.maxWeight})`,
+  );
+  reporter.info(
+    `${kleur.white('labels')}     ${o.noDirs ? 'hidden' : 'shown'}${o.dirStats ? ', with dir stats' : ''}`,
+  );
+  reporter.info(
+    `${kleur.white('canvas')}     ${o.canvas.width}×${o.canvas.height}, margin ${o.canvas.margin}, padding ${o.canvas.padding}, legend ${o.canvas.legend}`,
+  );
   reporter.info(
-    `${kleur.white('labels')}     ${o.noDirs ? 'hidden' : 'shown'}`,
+    `${kleur.white('theme')}      ${o.theme.name}, bg ${o.bgColor}, contrast ${o.contrast}`,
   );
   reporter.info(
-    `${kleur.white('bg/palette')} ${o.bgColor} / ${o.palette} (${o.contrast})`,
+    `${kleur.white('palette')}    ${o.palette.name}, color by ${o.colorBy}`,
   );
   reporter.info(
-    `${kleur.white('ignore')}     file: ${ignoreFileStr}, inline: ${ignoreInlineCount}`,
+    `${kleur.white('ignore')}     file: ${ignoreFileStr}, inline: ${ignoreInlineCount}${o.gitignore ? ', .gitignore' : ''}${o.gitTracked ? ', git-tracked only' : ''}`,
   );
+  if (o.symlinks !== 'skip')
+    reporter.info(
+      `${kleur.white('symlinks')}   ${o.symlinks}${o.symlinkRoot ? ` within ${o.symlinkRoot}` : ''}`,
+    );
   reporter.info(`${kleur.white('ext colors')} ${extColorCount} override(s)`);
   reporter.info(
     `${kleur.white('template')}   ${describeTemplate(o.htmlTemplate)}`,
   );
+  if (o.compare)
+    reporter.info(
+      `${kleur.white('compare')}    ${o.compare} (colors: ${o.diffColor})`,
+    );
+  if (o.serve !== null)
+    reporter.info(
+      `${kleur.white('serve')}      127.0.0.1:${o.serve || 'any free port'}${o.watch ? ', watching' : ''}`,
+    );
+}
+
+// Render options that need data the archived scan may not have collected
+function warnMissingData(
+  snapshot: Snapshot,
+  o: Options,
+  reporter: ReturnType<typeof createReporter>,
+) {
+  const scanned = snapshot.meta.options;
+  if (o.sizeBy === 'lines' && scanned.sizeBy !== 'lines')
+    reporter.warn(
+      `snapshot was not sized by lines (${scanned.sizeBy}); line counts are missing`,
+    );
+  if (
+    GIT_COLOR_MODES.includes(o.colorBy) &&
+    !GIT_COLOR_MODES.includes(scanned.colorBy ?? 'ext')
+  )
+    reporter.warn(
+      `snapshot has no git history; --color-by ${o.colorBy} shows every file as (no history)`,
+    );
 }
@@ -0,0 +1,210 @@
+import { createHash } from 'node:crypto';
+import type { Stats } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { errorMessage } from './errors';
+import type { Reporter } from './reporter';
+
+// Bump when the file layout changes; other versions are ignored (rebuilt)
+const SCAN_CACHE_VERSION = 2;
+
+// Per-user cache location (--cache-dir default), so scans leave nothing in
+// the working directory: $XDG_CACHE_HOME, ~/Library/Caches, %LOCALAPPDATA%
+// or ~/.cache, plus "lsphere"
+export function defaultCacheDir(): string {
+  const base =
+    process.env.XDG_CACHE_HOME ||
+    (process.platform === 'darwin'
+      ? path.join(os.homedir(), 'Library', 'Caches')
+      : process.platform === 'win32'
+        ? process.env.LOCALAPPDATA
+        : undefined) ||
+    path.join(os.homedir(), '.cache');
+  return path.join(base, 'lsphere');
+}
+
+// A directory entry as the scanner sorts and filters it
+export interface DirEntry {
+  name: string;
+  dir: boolean;
+}
+
+// Files and symlinks of a directory as the last scan found them (name ->
+// size, name -> link target)
+export interface DirLeaves {
+  files: Map<string, number>;
+  links: Map<string, string>;
+}
+
+// What a stat must still match for a cached value to be reused
+interface Stamp {
+  mtimeMs: number;
+  ino: number;
+  size: number;
+}
+
+interface CacheFile {
+  version: number;
+  root: string;
+  dirs: Record<string, DirRecord>; // rel path
+  lines: Record<string, Stamp & { lines: number }>; // rel path
+}
+
+interface DirRecord extends Stamp {
+  entries: [string, boolean][];
+  files?: [string, number][];
+  links?: [string, string][];
+}
+
+interface HitRate {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Persistent scan cache, one file per scanned root under --cache-dir:
+ *  - directory listings, reused while the directory's mtime + inode match
+ *    (adding, removing or renaming an entry changes the mtime)
+ *  - line counts, reused while the file's size, mtime + inode match
+ *  - the files and links of each directory, which --size-by files|uniform
+ *    reuse along with the listing: those scans stat directories only, so an
+ *    unchanged subtree costs one stat per directory. Editing a file leaves
+ *    its directory's mtime alone, so sizes of reused files are those of the
+ *    last scan; the other metrics stat every entry.
+ * Only paths seen by the last scan are kept.
+ */
+export interface ScanCache {
+  listing: (rel: string, st: Stats) => DirEntry[] | undefined;
+  setListing: (rel: string, st: Stats, entries: DirEntry[]) => void;
+  // only after `listing` returned the directory's entries
+  leaves: (rel: string) => DirLeaves | undefined;
+  setLeaves: (rel: string, leaves: DirLeaves) => void;
+  lines: (rel: string, st: Stats) => number | undefined;
+  setLines: (rel: string, st: Stats, lines: number) => void;
+  summary: () => string; // hit rates, e.g. "dirs 120/130 (92%), …"
+  save: () => Promise<void>;
+}
+
+export async function loadScanCache(
+  cacheDir: string,
+  rootAbs: string,
+  reporter: Reporter,
+): Promise<ScanCache> {
+  const file = path.join(
+    cacheDir,
+    `scan-${createHash('sha256').update(rootAbs).digest('hex').slice(0, 16)}.json`,
+  );
+  const old = await readCacheFile(file, rootAbs, reporter);
+  const next: CacheFile = {
+    version: SCAN_CACHE_VERSION,
+    root: rootAbs,
+    dirs: {},
+    lines: {},
+  };
+  const dirRate: HitRate = { hits: 0, misses: 0 };
+  const lineRate: HitRate = { hits: 0, misses: 0 };
+
+  return {
+    listing(rel, st) {
+      const hit = old.dirs[rel];
+      if (!hit || !matches(hit, st)) {
+        dirRate.misses++;
+        return undefined;
+      }
+      dirRate.hits++;
+      next.dirs[rel] = hit;
+      return hit.entries.map(([name, dir]) => ({ name, dir }));
+    },
+    setListing(rel, st, entries) {
+      next.dirs[rel] = {
+        ...stamp(st),
+        entries: entries.map((e) => [e.name, e.dir]),
+      };
+    },
+    leaves(rel) {
+      const hit = old.dirs[rel];
+      if (!hit?.files || next.dirs[rel] !== hit) return undefined;
+      return { files: new Map(hit.files), links: new Map(hit.links) };
+    },
+    setLeaves(rel, { files, links }) {
+      const record = next.dirs[rel];
+      if (record)
+        next.dirs[rel] = { ...record, files: [...files], links: [...links] };
+    },
+    lines(rel, st) {
+      const hit = old.lines[rel];
+      if (!hit || !matches(hit, st)) {
+        lineRate.misses++;
+        return undefined;
+      }
+      lineRate.hits++;
+      next.lines[rel] = hit;
+      return hit.lines;
+    },
+    setLines(rel, st, lines) {
+      next.lines[rel] = { ...stamp(st), lines };
+    },
+    summary() {
+      const parts = [`dirs ${rate(dirRate)}`];
+      if (lineRate.hits + lineRate.misses)
+        parts.push(`lines ${rate(lineRate)}`);
+      return parts.join(', ');
+    },
+    async save() {
+      // write + rename, so a crashed run never leaves half a file
+      try {
+        await fs.mkdir(cacheDir, { recursive: true });
+        const tmp = `${file}.${process.pid}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(next));
+        await fs.rename(tmp, file);
+        reporter.debug(`scan cache written: ${file}`);
+      } catch (err: unknown) {
+        reporter.warn(`cannot write scan cache ${file} (${errorMessage(err)})`);
+      }
+    },
+  };
+}
+
+// An empty cache when missing, unreadable, from another version or root
+async function readCacheFile(
+  file: string,
+  rootAbs: string,
+  reporter: Reporter,
+): Promise<CacheFile> {
+  const empty: CacheFile = {
+    version: SCAN_CACHE_VERSION,
+    root: rootAbs,
+    dirs: {},
+    lines: {},
+  };
+  let data: CacheFile;
+  try {
+    data = JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch {
+    return empty;
+  }
+  if (
+    data?.version !== SCAN_CACHE_VERSION ||
+    data.root !== rootAbs ||
+    typeof data.dirs !== 'object' ||
+    typeof data.lines !== 'object'
+  ) {
+    reporter.debug(`scan cache ignored (other version or root): ${file}`);
+    return empty;
+  }
+  return data;
+}
+
+function stamp(st: Stats): Stamp {
+  return { mtimeMs: st.mtimeMs, ino: st.ino, size: st.size };
+}
+
+function matches(s: Stamp, st: Stats): boolean {
+  return s.mtimeMs === st.mtimeMs && s.ino === st.ino && s.size === st.size;
+}
+
+function rate({ hits, misses }: HitRate): string {
+  const total = hits + misses;
+  return `${hits}/${total} (${total ? Math.round((hits / total) * 100) : 0}%)`;
+}
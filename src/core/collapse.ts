@@ -0,0 +1,58 @@
+import type { DirNode, FileNode, LinkNode, OtherNode, TreeNode } from './model';
+
+/**
+ * Merge the files `pick` returns for each directory into one "+N more" node.
+ * A directory merges at least two files (a lone pick stays as it is); files
+ * merged by an earlier pass stay merged. Stats are unchanged: merged files
+ * still count toward their directory.
+ */
+export function collapseTree(
+  dir: DirNode,
+  pick: (dir: DirNode) => readonly FileNode[],
+): DirNode {
+  const picked = new Set(pick(dir));
+  const merged = dir.children.flatMap((c) =>
+    c.kind === 'other' ? c.children : [],
+  );
+  if (merged.length === 0 && picked.size < 2) picked.clear();
+
+  const children: TreeNode[] = [];
+  for (const c of dir.children) {
+    if (c.kind === 'dir') children.push(collapseTree(c, pick));
+    else if (c.kind === 'file' && picked.has(c)) merged.push(c);
+    else if (c.kind !== 'other') children.push(c); // "other": re-merged below
+  }
+  if (merged.length) children.push(otherNode(dir, merged));
+  return { ...dir, children };
+}
+
+/** Undo collapseTree: merged files go back into their directory. */
+export function expandTree(dir: DirNode): DirNode {
+  return { ...dir, children: flatChildren(dir).map(expandIfDir) };
+}
+
+// Children of a directory with merged files in place of their "+N more" node
+export function flatChildren(dir: DirNode): (DirNode | FileNode | LinkNode)[] {
+  return dir.children.flatMap((c) => (c.kind === 'other' ? c.children : [c]));
+}
+
+// Nodes below any node: none for files and links
+export function childrenOf(n: TreeNode): TreeNode[] {
+  return n.kind === 'dir' || n.kind === 'other' ? n.children : [];
+}
+
+function expandIfDir<T extends TreeNode>(n: T | DirNode): T | DirNode {
+  return n.kind === 'dir' ? expandTree(n) : n;
+}
+
+function otherNode(dir: DirNode, files: FileNode[]): OtherNode {
+  const name = `+${files.length} more`;
+  return {
+    kind: 'other',
+    name,
+    path: dir.path ? `${dir.path}/${name}` : name,
+    size: files.reduce((acc, f) => acc + f.size, 0),
+    count: files.length,
+    children: files,
+  };
+}
@@ -0,0 +1,305 @@
+// Project config file: the same knobs as the CLI, as JSON, layered between the
+// built-in DEFAULTS and the flags. Reading + validation only; resolveOptions
+// does the layering.
+
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { errorMessage, UsageError } from './errors';
+import { FILE_CATEGORIES, type FileCategory } from './languages';
+import { SIZE_METRICS, SIZE_SCALES } from './metrics';
+import { THEME_NAMES, type ThemeName } from './themes';
+import type { SizeMetric, SizeScale } from './metrics';
+import {
+  COLOR_MODES,
+  CONTRAST_MODES,
+  DIFF_COLOR_MODES,
+  LEGEND_PLACEMENTS,
+  REPORT_FORMATS,
+  SYMLINK_MODES,
+  closest,
+  isPaletteFile,
+  isTemplateUrl,
+  type CanvasOptions,
+  type ColorMode,
+  type ContrastMode,
+  type DiffColorMode,
+  type OutputMode,
+  type ReportFormat,
+  type SymlinkMode,
+} from './options';
+
+// Searched in the working directory, first match wins
+export const CONFIG_FILES = ['lsphere.config.json', 'config/defaults.json'];
+
+// Every Options field, all optional. The template is given by source
+// (like --html-template) with its fetch settings alongside.
+export interface ConfigFile {
+  targetPath?: string;
+  outDir?: string;
+  outputs?: Partial<OutputMode>;
+  pngScale?: number;
+  canvas?: Partial<CanvasOptions>;
+  depth?: number;
+  dirsOnly?: boolean;
+  noDirs?: boolean;
+  dirStats?: boolean;
+  maxChildren?: number | null; // null = no limit
+  minRadius?: number;
+  sizeBy?: SizeMetric;
+  scale?: SizeScale;
+  minWeight?: number;
+  maxWeight?: number;
+  symlinks?: SymlinkMode;
+  symlinkRoot?: string | null; // null = no boundary
+  maxEntries?: number | null; // null = no limit
+  cache?: boolean;
+  cacheDir?: string;
+  theme?: ThemeName;
+  bgColor?: string; // overrides the theme background
+  palette?: string | string[]; // name, color list, palette file
+  extColors?: Record<string, string>;
+  colorBy?: ColorMode;
+  languages?: Record<string, string>; // ".ext" or basename -> language
+  categories?: Record<string, FileCategory>; // language -> category
+  contrast?: ContrastMode;
+  ignoreFile?: string | null; // null disables ignore files
+  ignorePatterns?: string[];
+  gitignore?: boolean;
+  gitTracked?: boolean;
+  htmlTemplate?: string; // "default" | path | url
+  templateCacheDir?: string;
+  templateTimeoutMs?: number;
+  templateHash?: string;
+  noNetwork?: boolean;
+  htmlInline?: boolean;
+  fromSnapshot?: string;
+  compare?: string;
+  diffColor?: DiffColorMode;
+  report?: boolean;
+  reportFormat?: ReportFormat;
+  reportTop?: number;
+  watch?: boolean;
+  serve?: number | null; // port, 0 = any free one, null = off
+  strict?: boolean;
+  verbose?: boolean;
+}
+
+// Config path to use: --config wins, otherwise the first CONFIG_FILES match
+export function findConfigFile(
+  explicit: string | undefined,
+  cwd = process.cwd(),
+): string | null {
+  if (explicit) return explicit;
+  for (const name of CONFIG_FILES) {
+    const p = join(cwd, name);
+    if (existsSync(p)) return p;
+  }
+  return null;
+}
+
+/**
+ * Read and validate a config file. An empty file is an empty config.
+ * Relative paths in it are resolved against `baseDir`: the file's own
+ * directory by default, the project root for a found config/defaults.json.
+ * Throws a UsageError whose details list every problem as
+ * `<file>: <key>: <reason>`.
+ */
+export function loadConfig(file: string, baseDir = dirname(file)): ConfigFile {
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf8');
+  } catch (err: unknown) {
+    throw new UsageError(`cannot read config ${file} (${errorMessage(err)})`);
+  }
+  if (!text.trim()) return {};
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err: unknown) {
+    throw new UsageError(`${file}: ${errorMessage(err)}`);
+  }
+
+  const problems = validateConfig(data);
+  if (problems.length)
+    throw new UsageError(
+      `invalid config ${file}`,
+      problems.map((p) => `${file}: ${p}`),
+    );
+  return resolveConfigPaths(data as ConfigFile, baseDir);
+}
+
+// Keys holding a file or directory path (palette and htmlTemplate may also
+// hold names or URLs). ignoreFile is not one: it is looked up in the scanned
+// tree.
+const PATH_KEYS = [
+  'targetPath',
+  'outDir',
+  'symlinkRoot',
+  'cacheDir',
+  'templateCacheDir',
+  'fromSnapshot',
+  'compare',
+] as const;
+
+function resolveConfigPaths(config: ConfigFile, dir: string): ConfigFile {
+  const out: ConfigFile = { ...config };
+  for (const key of PATH_KEYS) {
+    const v = out[key];
+    if (typeof v === 'string') out[key] = resolve(dir, v);
+  }
+  if (typeof out.palette === 'string' && isPaletteFile(out.palette))
+    out.palette = resolve(dir, out.palette.trim());
+  const t = out.htmlTemplate;
+  if (t && t !== 'default' && !isTemplateUrl(t))
+    out.htmlTemplate = resolve(dir, t);
+  return out;
+}
+
+export function validateConfig(data: unknown): string[] {
+  const problems: string[] = [];
+  if (!isObject(data)) return ['expected a JSON object at the top level'];
+  checkShape(data, CONFIG_SCHEMA, '', problems);
+  return problems;
+}
+
+// ---------- schema ----------
+
+// Returns a reason when the value does not fit, null when it does
+type Check = (v: unknown) => string | null;
+interface Shape {
+  [key: string]: Check | Shape;
+}
+
+const str: Check = (v) => (typeof v === 'string' ? null : 'expected a string');
+const bool: Check = (v) =>
+  typeof v === 'boolean' ? null : 'expected true or false';
+const int: Check = (v) => (Number.isInteger(v) ? null : 'expected an integer');
+const positive: Check = (v) =>
+  typeof v === 'number' && Number.isFinite(v) && v > 0
+    ? null
+    : 'expected a positive number';
+const nonNegative: Check = (v) =>
+  typeof v === 'number' && Number.isFinite(v) && v >= 0
+    ? null
+    : 'expected a number >= 0';
+const oneOf =
+  (values: readonly string[]): Check =>
+  (v) =>
+    typeof v === 'string' && values.includes(v)
+      ? null
+      : `expected one of ${values.join('|')}`;
+const nullable =
+  (check: Check): Check =>
+  (v) =>
+    v === null ? null : check(v);
+const strArray: Check = (v) =>
+  Array.isArray(v) && v.every((s) => typeof s === 'string')
+    ? null
+    : 'expected an array of strings';
+const mapOf =
+  (check: Check): Check =>
+  (v) => {
+    if (!isObject(v)) return 'expected an object';
+    for (const [key, value] of Object.entries(v)) {
+      const reason = check(value);
+      if (reason) return `${key}: ${reason}`;
+    }
+    return null;
+  };
+const colorMap: Check = (v) =>
+  isObject(v) &&
+  Object.entries(v).every(
+    ([ext, color]) => ext.startsWith('.') && typeof color === 'string',
+  )
+    ? null
+    : 'expected an object like { ".ts": "#3178c6" }';
+
+const CONFIG_SCHEMA: Shape = {
+  targetPath: str,
+  outDir: str,
+  outputs: { svg: bool, html: bool, json: bool, png: bool },
+  pngScale: positive,
+  canvas: {
+    width: positive,
+    height: positive,
+    margin: nonNegative,
+    padding: nonNegative,
+    legend: oneOf(LEGEND_PLACEMENTS),
+  },
+  depth: int,
+  dirsOnly: bool,
+  noDirs: bool,
+  dirStats: bool,
+  maxChildren: nullable(positive),
+  minRadius: nonNegative,
+  sizeBy: oneOf(SIZE_METRICS),
+  scale: oneOf(SIZE_SCALES),
+  minWeight: positive,
+  maxWeight: positive,
+  symlinks: oneOf(SYMLINK_MODES),
+  symlinkRoot: nullable(str),
+  maxEntries: nullable(positive),
+  cache: bool,
+  cacheDir: str,
+  theme: oneOf(THEME_NAMES),
+  bgColor: str,
+  palette: (v) => (typeof v === 'string' ? null : strArray(v)),
+  extColors: colorMap,
+  colorBy: oneOf(COLOR_MODES),
+  languages: mapOf(str),
+  categories: mapOf(oneOf(FILE_CATEGORIES)),
+  contrast: oneOf(CONTRAST_MODES),
+  ignoreFile: nullable(str),
+  ignorePatterns: strArray,
+  gitignore: bool,
+  gitTracked: bool,
+  htmlTemplate: str,
+  templateCacheDir: str,
+  templateTimeoutMs: positive,
+  templateHash: str,
+  noNetwork: bool,
+  htmlInline: bool,
+  fromSnapshot: str,
+  compare: str,
+  diffColor: oneOf(DIFF_COLOR_MODES),
+  report: bool,
+  reportFormat: oneOf(REPORT_FORMATS),
+  reportTop: positive,
+  watch: bool,
+  serve: nullable(int),
+  strict: bool,
+  verbose: bool,
+};
+
+function checkShape(
+  data: Record<string, unknown>,
+  shape: Shape,
+  prefix: string,
+  problems: string[],
+): void {
+  for (const [key, value] of Object.entries(data)) {
+    const at = prefix + key;
+    const rule = Object.prototype.hasOwnProperty.call(shape, key)
+      ? shape[key]
+      : undefined;
+    if (!rule) {
+      const hint = closest(key, Object.keys(shape));
+      problems.push(
+        `${at}: unknown key${hint ? ` (did you mean "${prefix}${hint}"?)` : ''}`,
+      );
+    } else if (typeof rule === 'function') {
+      const reason = rule(value);
+      if (reason)
+        problems.push(`${at}: ${reason}, got ${JSON.stringify(value)}`);
+    } else if (!isObject(value)) {
+      problems.push(`${at}: expected an object`);
+    } else {
+      checkShape(value, rule, `${at}.`, problems);
+    }
+  }
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
@@ -0,0 +1,149 @@
+import type { DirNode, FileNode, LinkNode, NodeKind, Snapshot } from './model';
+import { expandTree, flatChildren } from './collapse';
+import { scanOrder } from './scan';
+import { dirStats } from './stats';
+
+type Node = DirNode | FileNode | LinkNode;
+
+export type ChangeKind = 'added' | 'removed' | 'grown' | 'shrunk' | 'unchanged';
+export const CHANGE_KINDS: readonly ChangeKind[] = [
+  'added',
+  'removed',
+  'grown',
+  'shrunk',
+  'unchanged',
+] as const;
+
+// One changed node; sizes are bytes (dirs: total of their files)
+export interface DiffEntry {
+  path: string;
+  kind: NodeKind;
+  change: ChangeKind;
+  before: number | null; // null when added
+  after: number | null; // null when removed
+  delta: number; // after - before (missing side counts as 0)
+}
+
+export interface SnapshotDiff {
+  meta: {
+    tool: 'lsphere';
+    generatedAt: string;
+    base: { root: string; generatedAt: string };
+    head: { root: string; generatedAt: string };
+  };
+  summary: Record<ChangeKind, number> & {
+    bytesBefore: number;
+    bytesAfter: number;
+  };
+  entries: DiffEntry[]; // changed nodes only, sorted by path
+  // union of both trees (removed nodes keep their old size), for rendering
+  tree: DirNode;
+}
+
+/**
+ * Compare two snapshots node by node (matched by path).
+ * A path that switched kind, or a symlink that now points elsewhere, counts as
+ * removed + added.
+ * Collapsed ("+N more") files are compared one by one, and the diff tree has
+ * none (one-sided subtrees are expanded too).
+ */
+export function diffSnapshots(base: Snapshot, head: Snapshot): SnapshotDiff {
+  const entries: DiffEntry[] = [];
+  const summary: SnapshotDiff['summary'] = {
+    added: 0,
+    removed: 0,
+    grown: 0,
+    shrunk: 0,
+    unchanged: 0,
+    bytesBefore: totalBytes(base.tree),
+    bytesAfter: totalBytes(head.tree),
+  };
+
+  function record(n: Node, before: number | null, after: number | null) {
+    const delta = (after ?? 0) - (before ?? 0);
+    const change: ChangeKind =
+      before === null
+        ? 'added'
+        : after === null
+          ? 'removed'
+          : delta > 0
+            ? 'grown'
+            : delta < 0
+              ? 'shrunk'
+              : 'unchanged';
+    summary[change]++;
+    if (change !== 'unchanged')
+      entries.push({
+        path: n.path,
+        kind: n.kind,
+        change,
+        before,
+        after,
+        delta,
+      });
+  }
+
+  // whole subtree present on one side only
+  function oneSided(n: Node, side: 'before' | 'after') {
+    const bytes = totalBytes(n);
+    record(
+      n,
+      side === 'before' ? bytes : null,
+      side === 'after' ? bytes : null,
+    );
+    if (n.kind === 'dir') for (const c of flatChildren(n)) oneSided(c, side);
+  }
+
+  function merge(a: DirNode, b: DirNode): DirNode {
+    const before = new Map(flatChildren(a).map((c) => [c.name, c]));
+    const children: Node[] = [];
+    for (const c of flatChildren(b)) {
+      const old = before.get(c.name);
+      before.delete(c.name);
+      const retargeted =
+        c.kind === 'link' && (old as LinkNode | undefined)?.target !== c.target;
+      if (!old || old.kind !== c.kind || retargeted) {
+        if (old) oneSided(old, 'before');
+        oneSided(c, 'after');
+        children.push(expanded(c));
+      } else if (c.kind === 'dir') {
+        record(c, totalBytes(old), totalBytes(c));
+        children.push(merge(old as DirNode, c));
+      } else {
+        record(c, totalBytes(old), totalBytes(c));
+        children.push(c);
+      }
+    }
+    // removed nodes stay in the tree so they can still be drawn
+    for (const old of before.values()) {
+      oneSided(old, 'before');
+      children.push(expanded(old));
+    }
+    children.sort(scanOrder);
+    return { ...b, children, stats: dirStats(children) };
+  }
+
+  const tree = merge(base.tree, head.tree);
+  entries.sort((x, y) => (x.path < y.path ? -1 : x.path > y.path ? 1 : 0));
+
+  return {
+    meta: {
+      tool: 'lsphere',
+      generatedAt: new Date().toISOString(),
+      base: { root: base.meta.root, generatedAt: base.meta.generatedAt },
+      head: { root: head.meta.root, generatedAt: head.meta.generatedAt },
+    },
+    summary,
+    entries,
+    tree,
+  };
+}
+
+function expanded(n: Node): Node {
+  return n.kind === 'dir' ? expandTree(n) : n;
+}
+
+// links count as empty: a followed link is a plain dir or file node
+function totalBytes(n: Node): number {
+  return n.kind === 'file' ? n.size : n.kind === 'link' ? 0 : n.stats.bytes;
+}
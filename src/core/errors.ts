@@ -0,0 +1,64 @@
+import type { ExitCode } from './reporter';
+
+/**
+ * A failure with the exit code the CLI ends with. Core code throws these
+ * instead of exiting; cli.ts maps them in one place, library callers catch
+ * them. `details` holds the individual problems behind a summary message
+ * (e.g. one line per invalid option).
+ */
+export class LsphereError extends Error {
+  readonly exitCode: ExitCode;
+  readonly details: readonly string[];
+
+  constructor(
+    message: string,
+    exitCode: ExitCode,
+    details: readonly string[] = [],
+  ) {
+    super(message);
+    this.name = 'LsphereError';
+    this.exitCode = exitCode;
+    this.details = details;
+  }
+}
+
+// Bad flags, config values or combinations of them
+export class UsageError extends LsphereError {
+  constructor(message: string, details?: readonly string[]) {
+    super(message, 2, details);
+    this.name = 'UsageError';
+  }
+}
+
+// The target cannot be scanned: missing, not a directory, too big, git failed
+export class ScanError extends LsphereError {
+  constructor(message: string, details?: readonly string[]) {
+    super(message, 3, details);
+    this.name = 'ScanError';
+  }
+}
+
+// SVG layout or PNG rasterization failed
+export class RenderError extends LsphereError {
+  constructor(message: string, details?: readonly string[]) {
+    super(message, 4, details);
+    this.name = 'RenderError';
+  }
+}
+
+// Reading or writing files, fetching templates, binding the preview server
+export class IoError extends LsphereError {
+  constructor(message: string, details?: readonly string[]) {
+    super(message, 5, details);
+    this.name = 'IoError';
+  }
+}
+
+// Exit code for anything thrown: its own for LsphereErrors, 1 otherwise
+export function exitCodeOf(err: unknown): ExitCode {
+  return err instanceof LsphereError ? err.exitCode : 1;
+}
+
+export function errorMessage(err: unknown): string {
+  return String((err as Error)?.message ?? err);
+}
@@ -0,0 +1,99 @@
+import { execFileSync } from 'node:child_process';
+import { errorMessage, ScanError } from './errors';
+import type { GitInfo } from './model';
+
+// Everything here shells out to the local git binary; no network, no libgit.
+
+// Files git tracks under the root, plus every directory that contains one.
+export interface TrackedSet {
+  files: Set<string>;
+  dirs: Set<string>;
+}
+
+function git(cwd: string, args: string[], what: string): string {
+  try {
+    return execFileSync('git', ['-c', 'core.quotePath=false', ...args], {
+      cwd,
+      encoding: 'utf8',
+      maxBuffer: 1024 * 1024 * 512,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+  } catch (err: unknown) {
+    const msg = errorMessage(err).split('\n')[0];
+    throw new ScanError(`${what} (${msg})`);
+  }
+}
+
+/** Tracked files (paths relative to rootAbs), as `git ls-files` reports them. */
+export function loadTrackedSet(rootAbs: string): TrackedSet {
+  const out = git(
+    rootAbs,
+    ['ls-files', '-z', '--cached'],
+    '--git-tracked: cannot list tracked files',
+  );
+  const files = new Set(out.split('\0').filter(Boolean));
+  const dirs = new Set<string>();
+  for (const f of files) {
+    for (let i = f.lastIndexOf('/'); i > 0; i = f.lastIndexOf('/', i - 1)) {
+      const d = f.slice(0, i);
+      if (dirs.has(d)) break;
+      dirs.add(d);
+    }
+  }
+  return { files, dirs };
+}
+
+/** Whether rootAbs is inside a git work tree (false without git, too). */
+export function isGitWorkTree(rootAbs: string): boolean {
+  try {
+    return (
+      git(
+        rootAbs,
+        ['rev-parse', '--is-inside-work-tree'],
+        'rev-parse',
+      ).trim() === 'true'
+    );
+  } catch {
+    return false;
+  }
+}
+
+// record/unit separators keep the commit header apart from --name-only lines
+const RS = '\x1e';
+const US = '\x1f';
+
+/**
+ * Per-file history under rootAbs from a single `git log` walk (newest first):
+ * last commit date + author, and the number of commits touching the file.
+ * Renames are not followed; paths are relative to rootAbs.
+ */
+export function readGitHistory(rootAbs: string): Map<string, GitInfo> {
+  const out = git(
+    rootAbs,
+    [
+      'log',
+      '--no-renames',
+      '--relative',
+      '--name-only',
+      `--format=${RS}%aI${US}%an`,
+      '--',
+      '.',
+    ],
+    '--color-by: cannot read git history',
+  );
+
+  const history = new Map<string, GitInfo>();
+  let date = '';
+  let author = '';
+  for (const line of out.split('\n')) {
+    if (line.startsWith(RS)) {
+      [date, author] = line.slice(1).split(US);
+      continue;
+    }
+    if (!line) continue;
+    const seen = history.get(line);
+    if (seen) seen.commits++;
+    else history.set(line, { lastCommit: date, author, commits: 1 });
+  }
+  return history;
+}
@@ -0,0 +1,225 @@
+// Language classification: extensions and well-known filenames → language,
+// language → coarse category. Feeds --color-by language|category.
+
+export type FileCategory =
+  | 'code'
+  | 'docs'
+  | 'assets'
+  | 'config'
+  | 'tests'
+  | 'other';
+
+export const FILE_CATEGORIES: readonly FileCategory[] = [
+  'code',
+  'docs',
+  'assets',
+  'config',
+  'tests',
+  'other',
+];
+
+export interface Classification {
+  language: string;
+  category: FileCategory;
+}
+
+// Files with no known language: their extension, or this for bare names
+export const UNKNOWN_LANGUAGE = 'Other';
+
+interface LanguageDef {
+  category: FileCategory;
+  exts?: string[]; // lowercase, with the dot
+  files?: string[]; // exact basenames (matched case-insensitively)
+}
+
+const BUILTIN: Record<string, LanguageDef> = {
+  // code
+  TypeScript: { category: 'code', exts: ['.ts', '.tsx', '.mts', '.cts'] },
+  JavaScript: { category: 'code', exts: ['.js', '.jsx', '.mjs', '.cjs'] },
+  Python: { category: 'code', exts: ['.py', '.pyi', '.pyx'] },
+  Go: { category: 'code', exts: ['.go'] },
+  Rust: { category: 'code', exts: ['.rs'] },
+  Java: { category: 'code', exts: ['.java'] },
+  Kotlin: { category: 'code', exts: ['.kt', '.kts'] },
+  Scala: { category: 'code', exts: ['.scala', '.sc'] },
+  C: { category: 'code', exts: ['.c', '.h'] },
+  'C++': {
+    category: 'code',
+    exts: ['.cpp', '.cc', '.cxx', '.hpp', '.hh', '.hxx', '.ipp'],
+  },
+  'C#': { category: 'code', exts: ['.cs', '.csx'] },
+  'Objective-C': { category: 'code', exts: ['.m', '.mm'] },
+  Swift: { category: 'code', exts: ['.swift'] },
+  Ruby: {
+    category: 'code',
+    exts: ['.rb', '.erb', '.rake'],
+    files: ['Gemfile', 'Rakefile'],
+  },
+  PHP: { category: 'code', exts: ['.php'] },
+  Perl: { category: 'code', exts: ['.pl', '.pm'] },
+  Lua: { category: 'code', exts: ['.lua'] },
+  Dart: { category: 'code', exts: ['.dart'] },
+  Elixir: { category: 'code', exts: ['.ex', '.exs'] },
+  Erlang: { category: 'code', exts: ['.erl', '.hrl'] },
+  Haskell: { category: 'code', exts: ['.hs', '.lhs'] },
+  OCaml: { category: 'code', exts: ['.ml', '.mli'] },
+  Clojure: { category: 'code', exts: ['.clj', '.cljs', '.cljc', '.edn'] },
+  R: { category: 'code', exts: ['.r'] },
+  Julia: { category: 'code', exts: ['.jl'] },
+  Zig: { category: 'code', exts: ['.zig'] },
+  Shell: {
+    category: 'code',
+    exts: ['.sh', '.bash', '.zsh', '.fish'],
+    files: ['.bashrc', '.zshrc', '.profile'],
+  },
+  PowerShell: { category: 'code', exts: ['.ps1', '.psm1'] },
+  SQL: { category: 'code', exts: ['.sql'] },
+  HTML: { category: 'code', exts: ['.html', '.htm', '.xhtml'] },
+  CSS: { category: 'code', exts: ['.css'] },
+  SCSS: { category: 'code', exts: ['.scss', '.sass'] },
+  Less: { category: 'code', exts: ['.less'] },
+  Vue: { category: 'code', exts: ['.vue'] },
+  Svelte: { category: 'code', exts: ['.svelte'] },
+  GraphQL: { category: 'code', exts: ['.graphql', '.gql'] },
+  Protobuf: { category: 'code', exts: ['.proto'] },
+  WebAssembly: { category: 'code', exts: ['.wat', '.wasm'] },
+  // build + config
+  Makefile: {
+    category: 'config',
+    exts: ['.mk', '.mak'],
+    files: ['Makefile', 'GNUmakefile'],
+  },
+  Dockerfile: {
+    category: 'config',
+    exts: ['.dockerfile'],
+    files: ['Dockerfile', 'Containerfile', '.dockerignore'],
+  },
+  CMake: { category: 'config', exts: ['.cmake'], files: ['CMakeLists.txt'] },
+  Bazel: {
+    category: 'config',
+    exts: ['.bzl', '.bazel'],
+    files: ['WORKSPACE'],
+  },
+  Nix: { category: 'config', exts: ['.nix'] },
+  Terraform: { category: 'config', exts: ['.tf', '.tfvars', '.hcl'] },
+  JSON: {
+    category: 'config',
+    exts: ['.json', '.jsonc', '.json5', '.jsonl', '.ndjson'],
+  },
+  YAML: { category: 'config', exts: ['.yml', '.yaml'] },
+  TOML: { category: 'config', exts: ['.toml'] },
+  XML: { category: 'config', exts: ['.xml', '.xsd', '.plist'] },
+  INI: {
+    category: 'config',
+    exts: ['.ini', '.cfg', '.conf', '.properties'],
+    files: ['.editorconfig', '.npmrc', '.nvmrc'],
+  },
+  Dotenv: { category: 'config', exts: ['.env'], files: ['.env'] },
+  Git: {
+    category: 'config',
+    files: ['.gitignore', '.gitattributes', '.gitmodules', '.mailmap'],
+  },
+  Lockfile: {
+    category: 'config',
+    exts: ['.lock', '.lockb'],
+    files: ['package-lock.json', 'pnpm-lock.yaml', 'go.sum'],
+  },
+  // docs
+  Markdown: { category: 'docs', exts: ['.md', '.markdown', '.mdx'] },
+  reStructuredText: { category: 'docs', exts: ['.rst'] },
+  AsciiDoc: { category: 'docs', exts: ['.adoc', '.asciidoc'] },
+  Text: {
+    category: 'docs',
+    exts: ['.txt'],
+    files: ['README', 'CHANGELOG', 'AUTHORS', 'CONTRIBUTORS', 'NOTICE'],
+  },
+  License: { category: 'docs', files: ['LICENSE', 'LICENCE', 'COPYING'] },
+  PDF: { category: 'docs', exts: ['.pdf'] },
+  // assets
+  Image: {
+    category: 'assets',
+    exts: [
+      '.png',
+      '.jpg',
+      '.jpeg',
+      '.gif',
+      '.webp',
+      '.avif',
+      '.bmp',
+      '.ico',
+      '.tif',
+      '.tiff',
+    ],
+  },
+  SVG: { category: 'assets', exts: ['.svg'] },
+  Font: {
+    category: 'assets',
+    exts: ['.woff', '.woff2', '.ttf', '.otf', '.eot'],
+  },
+  Media: {
+    category: 'assets',
+    exts: ['.mp3', '.wav', '.ogg', '.flac', '.mp4', '.webm', '.mov', '.avi'],
+  },
+  Archive: {
+    category: 'other',
+    exts: ['.zip', '.tar', '.gz', '.tgz', '.bz2', '.xz', '.7z'],
+  },
+};
+
+// Test files by path, whatever their language
+const TEST_PATTERNS = [
+  /(^|\/)(__tests__|__mocks__|tests?|specs?|e2e)\//i,
+  /\.(test|spec|e2e)\.[^./]+$/i,
+  /(^|\/)test_[^/]+\.py$/,
+  /_test\.(go|py|rb|exs)$/,
+  /Tests?\.(java|kt|cs|swift)$/,
+];
+
+export interface Classifier {
+  classify: (file: {
+    name: string;
+    path: string;
+    ext: string;
+  }) => Classification;
+}
+
+/**
+ * Build a classifier from the built-in table plus overrides:
+ * `languages` maps ".ext" or a basename to a language, `categories` maps a
+ * language to its category (languages only known from overrides: "other").
+ */
+export function createClassifier(
+  languages: Record<string, string> = {},
+  categories: Record<string, FileCategory> = {},
+): Classifier {
+  const byExt = new Map<string, string>();
+  const byFile = new Map<string, string>();
+  const categoryOf = new Map<string, FileCategory>();
+  for (const [language, def] of Object.entries(BUILTIN)) {
+    categoryOf.set(language, def.category);
+    for (const ext of def.exts ?? []) byExt.set(ext, language);
+    for (const file of def.files ?? [])
+      byFile.set(file.toLowerCase(), language);
+  }
+  // ".foo" is an extension, and also matches a dotfile named exactly ".foo"
+  for (const [key, language] of Object.entries(languages)) {
+    const k = key.toLowerCase();
+    if (k.startsWith('.')) byExt.set(k, language);
+    byFile.set(k, language);
+  }
+  for (const [language, category] of Object.entries(categories))
+    categoryOf.set(language, category);
+
+  return {
+    classify(file) {
+      const language =
+        byFile.get(file.name.toLowerCase()) ??
+        byExt.get(file.ext.toLowerCase()) ??
+        (file.ext || UNKNOWN_LANGUAGE);
+      const category = TEST_PATTERNS.some((re) => re.test(file.path))
+        ? 'tests'
+        : (categoryOf.get(language) ?? 'other');
+      return { language, category };
+    },
+  };
+}
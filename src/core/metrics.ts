@@ -0,0 +1,134 @@
+import { createReadStream } from 'node:fs';
+import { open } from 'node:fs/promises';
+import { scaleLinear, scaleLog, scaleSqrt } from 'd3-scale';
+import type { FileNode } from './model';
+
+// What a file "weighs" in the layout:
+// - bytes:   size on disk
+// - lines:   line count (newline-terminated lines + a trailing partial one)
+// - files:   every file counts as 1, so directories grow with their file count
+// - uniform: siblings share their parent equally, whatever their contents
+export type SizeMetric = 'bytes' | 'lines' | 'files' | 'uniform';
+
+export const SIZE_METRICS: readonly SizeMetric[] = [
+  'bytes',
+  'lines',
+  'files',
+  'uniform',
+];
+
+// How metric values map to pack weights (a circle's area is proportional to
+// its weight). The [minWeight, maxWeight] range bounds the result, so
+// maxWeight / minWeight is the largest possible area ratio between two files:
+// - log:    compresses orders of magnitude: the smallest file gets minWeight,
+//           the largest maxWeight (default, 1..100)
+// - sqrt:   weights proportional to the metric's square root
+// - linear: weights proportional to the metric (raise the ratio to see
+//           real disproportions, e.g. --min-weight 0.01 --max-weight 100)
+// sqrt and linear scale from 0, so the largest file gets maxWeight and the
+// rest keep their ratio to it down to the minWeight floor.
+export type SizeScale = 'log' | 'sqrt' | 'linear';
+
+export const SIZE_SCALES: readonly SizeScale[] = ['log', 'sqrt', 'linear'];
+
+export interface WeightScale {
+  (value: number): number;
+  invert: (weight: number) => number;
+}
+
+export function createWeightScale(
+  kind: SizeScale,
+  domain: [number, number],
+  range: [number, number],
+): WeightScale {
+  if (kind === 'log')
+    return scaleLog<number, number>().domain(domain).range(range).clamp(true);
+
+  const [minWeight, maxWeight] = range;
+  const scale = (kind === 'sqrt' ? scaleSqrt<number, number>() : scaleLinear())
+    .domain([0, domain[1]])
+    .range([0, maxWeight])
+    .clamp(true);
+  const weight = (value: number) => Math.max(minWeight, scale(value));
+  weight.invert = (w: number) => scale.invert(w);
+  return weight;
+}
+
+// Bytes sniffed for a NUL to decide a file is binary (same heuristic as git)
+const BINARY_SNIFF = 8000;
+
+/**
+ * Line count of a text file; binary or unreadable files count 0 lines.
+ * Only the first BINARY_SNIFF bytes are read up front; the rest is streamed
+ * so big files are never held in memory.
+ */
+export async function countLines(absPath: string): Promise<number> {
+  let head: Buffer;
+  try {
+    const fh = await open(absPath, 'r');
+    try {
+      const { buffer, bytesRead } = await fh.read(
+        Buffer.alloc(BINARY_SNIFF),
+        0,
+        BINARY_SNIFF,
+        0,
+      );
+      head = buffer.subarray(0, bytesRead);
+    } finally {
+      await fh.close();
+    }
+  } catch {
+    return 0;
+  }
+  if (head.includes(0)) return 0;
+
+  let lines = 0;
+  let last = head.length > 0 ? head[head.length - 1] : 0x0a;
+  const count = (chunk: Buffer): void => {
+    for (const byte of chunk) if (byte === 0x0a) lines++;
+    if (chunk.length > 0) last = chunk[chunk.length - 1];
+  };
+  count(head);
+  if (head.length === BINARY_SNIFF) {
+    try {
+      for await (const chunk of createReadStream(absPath, {
+        start: BINARY_SNIFF,
+      }))
+        count(chunk as Buffer);
+    } catch {
+      return 0;
+    }
+  }
+  if (last !== 0x0a) lines++;
+  return lines;
+}
+
+/** Raw metric value for a file (before any scaling). */
+export function metricValue(file: FileNode, sizeBy: SizeMetric): number {
+  switch (sizeBy) {
+    case 'bytes':
+      return file.size;
+    case 'lines':
+      return file.lines ?? 0;
+    case 'files':
+    case 'uniform':
+      return 1;
+  }
+}
+
+/** Human-readable metric value, e.g. "1.2 MB" or "340 lines". */
+export function formatMetric(value: number, sizeBy: SizeMetric): string {
+  if (sizeBy === 'lines') return `${Math.round(value)} lines`;
+  if (sizeBy !== 'bytes') return String(Math.round(value));
+  return formatBytes(value);
+}
+
+export function formatBytes(n: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let i = 0;
+  while (n >= 1024 && i < units.length - 1) {
+    n /= 1024;
+    i++;
+  }
+  return `${i === 0 ? Math.round(n) : n.toFixed(1)} ${units[i]}`;
+}
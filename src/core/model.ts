@@ -1,39 +1,93 @@
-import { ContrastMode } from './options';
+import type { FileCategory } from './languages';
+import type { SizeMetric, SizeScale } from './metrics';
+import { CanvasOptions, ColorMode, ContrastMode, SymlinkMode } from './options';
+import type { ThemeName } from './themes';
 
-export type NodeKind = 'file' | 'dir';
+export type NodeKind = 'file' | 'dir' | 'other' | 'link';
 
 export interface BaseNode {
   kind: NodeKind;
   name: string; // basename only
   path: string; // normalized, POSIX-style relative to target root
+  linkTarget?: string; // reached through a symlink (--symlinks follow)
+}
+
+// Local git history for a file (only collected for --color-by age|churn|author)
+export interface GitInfo {
+  lastCommit: string; // ISO date of the newest commit touching the file
+  author: string; // author of that commit
+  commits: number; // commits touching the file (churn)
 }
 
 export interface FileNode extends BaseNode {
   kind: 'file';
   size: number; // in bytes
   ext: string; // with leading dot, e.g. ".ts" or "" if none
+  lines?: number; // only collected when sizing by lines
+  git?: GitInfo; // absent when untracked or history was not requested
+  language?: string; // only collected for --color-by language|category
+  category?: FileCategory;
+}
+
+// Totals over everything below a directory (within the scanned tree)
+export interface DirStats {
+  bytes: number;
+  files: number;
+  dirs: number; // subdirectories at any depth
+  maxDepth: number; // levels below: 0 = empty, 1 = no subdirectories
+  byExt: Record<string, { bytes: number; files: number }>; // "" = no extension
 }
 
 export interface DirNode extends BaseNode {
   kind: 'dir';
-  children: (DirNode | FileNode)[];
+  children: (DirNode | FileNode | OtherNode | LinkNode)[];
+  stats: DirStats;
 }
 
+// A symlink drawn as itself: --symlinks show, or links --symlinks follow did
+// not descend into
+export interface LinkNode extends BaseNode {
+  kind: 'link';
+  target: string; // as stored in the link
+  reason?: 'broken' | 'cycle' | 'outside'; // why it was not followed
+}
+
+// Small files of one directory merged into a single "+N more" circle
+// (--max-children, --min-radius); the originals stay in `children` so viewers
+// can expand them again.
+export interface OtherNode extends BaseNode {
+  kind: 'other';
+  size: number; // total bytes of the merged files
+  count: number; // merged files
+  children: FileNode[];
+}
+
+export type TreeNode = DirNode | FileNode | OtherNode | LinkNode;
+
 export type DirectoryTree = DirNode;
 
 // A lightweight metadata header to include in JSON outputs
 export interface SnapshotMeta {
   tool: 'lsphere';
-  version: string; // semantic version (populate from package.json if you like, for now keep "0.0.0")
+  version: string; // snapshot format version (SNAPSHOT_VERSION), checked on read
   generatedAt: string; // ISO timestamp
   root: string; // absolute or normalized input path
   options: {
     depth: number;
     dirsOnly: boolean;
     noDirs: boolean;
+    symlinks: SymlinkMode; // tree contains link nodes unless "skip"
+    maxChildren: number | null; // "+N more" merging (tree contains other nodes)
+    minRadius: number;
+    theme: ThemeName;
     bgColor: string;
     palette: string;
     contrast: ContrastMode;
+    canvas: CanvasOptions;
+    sizeBy: SizeMetric;
+    scale: SizeScale;
+    weightRange: [number, number]; // [minWeight, maxWeight]
+    colorBy: ColorMode;
   };
 }
 
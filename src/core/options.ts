@@ -1,18 +1,104 @@
 // Single responsibility: define the Options shape and resolve raw CLI inputs into a
 // normalized, immutable Options object. No scanning, no rendering here.
 
+import { color } from 'd3-color';
+import { defaultCacheDir } from './cache';
+import { errorMessage } from './errors';
+import type { ConfigFile } from './config';
+import type { FileCategory } from './languages';
+import {
+  INTERPOLATOR_NAMES,
+  SCHEME_NAMES,
+  pickD3Scheme,
+  readPaletteFile,
+  type InterpolatorName,
+  type Palette,
+  type SchemeName,
+} from './palettes';
+import { THEMES, THEME_NAMES, type Theme, type ThemeName } from './themes';
+import {
+  SIZE_METRICS,
+  SIZE_SCALES,
+  type SizeMetric,
+  type SizeScale,
+} from './metrics';
+
+// File label contrast: auto = black/white per fill, on = plus an outline,
+// off = the theme's label color
 export type ContrastMode = 'auto' | 'on' | 'off';
-export type PaletteMode =
-  | 'category10'
-  | 'tableau10'
-  | 'set3'
-  | 'paired'
-  | 'dark2'
-  | 'accent'
-  | 'pastel1'
-  | 'pastel2'
-  | 'set1'
-  | 'set2';
+
+export const CONTRAST_MODES: readonly ContrastMode[] = ['auto', 'on', 'off'];
+
+// What file colors encode: extension, language or category (code, docs, …),
+// or local git history (age = days since last commit, churn = commit count,
+// author = last author)
+export type ColorMode =
+  | 'ext'
+  | 'language'
+  | 'category'
+  | 'age'
+  | 'churn'
+  | 'author';
+
+export const COLOR_MODES: readonly ColorMode[] = [
+  'ext',
+  'language',
+  'category',
+  'age',
+  'churn',
+  'author',
+];
+
+// Color modes that need `git log` at scan time
+export const GIT_COLOR_MODES: readonly ColorMode[] = ['age', 'churn', 'author'];
+
+// Diff rendering (--compare): categorical change type, or a diverging ramp
+// over the size delta
+export type DiffColorMode = 'change' | 'delta';
+
+export const DIFF_COLOR_MODES: readonly DiffColorMode[] = ['change', 'delta'];
+
+// Named palettes: categorical D3 schemes, continuous D3 ramps, or auto.
+// --palette also takes a comma-separated color list or a palette file.
+export type PaletteMode = SchemeName | InterpolatorName | 'auto';
+
+export const PALETTES: readonly PaletteMode[] = [
+  ...SCHEME_NAMES,
+  ...INTERPOLATOR_NAMES,
+  'auto',
+];
+
+// --report output: aligned text, or for PRs/tools markdown, csv and json
+export type ReportFormat = 'table' | 'json' | 'csv' | 'markdown';
+
+export const REPORT_FORMATS: readonly ReportFormat[] = [
+  'table',
+  'json',
+  'csv',
+  'markdown',
+];
+
+// Symlinks while scanning: leave out, draw as link nodes, or scan their target
+// (cycles and broken links are drawn as link nodes)
+export type SymlinkMode = 'skip' | 'show' | 'follow';
+
+export const SYMLINK_MODES: readonly SymlinkMode[] = ['skip', 'show', 'follow'];
+
+export type LegendPlacement = 'right' | 'bottom' | 'none';
+
+export const LEGEND_PLACEMENTS: readonly LegendPlacement[] = [
+  'right',
+  'bottom',
+  'none',
+];
+
+export interface CanvasOptions {
+  width: number; // total SVG width in px (legend included)
+  height: number; // total SVG height in px (title + legend included)
+  margin: number; // outer margin in px; the title adds its own band on top
+  padding: number; // pack() padding between sibling circles, in px
+  legend: LegendPlacement;
+}
 
 export interface OutputMode {
   svg: boolean;
@@ -45,23 +131,61 @@ export interface Options {
   targetPath: string;
   outDir: string;
   outputs: OutputMode;
+  pngScale: number; // raster scale factor (1 = SVG pixel size)
+
+  canvas: CanvasOptions;
 
   depth: number; // -1 = unlimited
   dirsOnly: boolean;
   noDirs: boolean;
+  dirStats: boolean; // totals next to directory labels
+  // merge small files into "+N more" nodes (see render/collapse)
+  maxChildren: number | null; // entries per directory, null = no limit
+  minRadius: number; // px, 0 = off
+  sizeBy: SizeMetric;
+  scale: SizeScale;
+  minWeight: number; // pack weight of the smallest file
+  maxWeight: number; // pack weight of the largest file
+  symlinks: SymlinkMode;
+  symlinkRoot: string | null; // follow only links resolving inside this dir
+  maxEntries: number | null; // stop scanning past this many entries
+  cache: boolean; // reuse listings + line counts of the last scan
+  cacheDir: string; // scan cache location
 
-  bgColor: string;
-  palette: PaletteMode;
+  theme: Theme; // colors besides file fills
+  bgColor: string; // --bg, or the theme background
+  palette: Palette;
   extColors: Record<string, string>;
+  colorBy: ColorMode;
+  languages: Record<string, string>; // ".ext" or basename -> language
+  categories: Record<string, FileCategory>; // language -> category
 
   contrast: ContrastMode;
 
   // Ignoring
   ignoreFile: string | null;
   ignorePatterns: string[];
+  gitignore: boolean; // honor .gitignore files (nested) + .git/info/exclude
+  gitTracked: boolean; // only files tracked by git
 
   // HTML template config
   htmlTemplate: HtmlTemplate;
+  htmlInline: boolean; // single-file HTML: snapshot + template assets embedded
+
+  // Snapshots (circle.json): render one instead of scanning, diff against one
+  fromSnapshot: string | null;
+  compare: string | null;
+  diffColor: DiffColorMode;
+
+  // Terminal report instead of files (largest files/dirs, extensions, depths)
+  report: boolean;
+  reportFormat: ReportFormat;
+  reportTop: number; // rows per ranking
+
+  watch: boolean; // keep running, rescan + re-render on changes
+  serve: number | null; // localhost port for the output dir, null = off
+
+  strict: boolean; // option warnings are errors
 
   verbose: boolean;
 }
@@ -77,20 +201,47 @@ export interface RawCLI {
   json?: boolean;
   png?: boolean;
   composite?: boolean;
+  htmlInline?: boolean;
+  pngScale?: string | number;
+  pngDpi?: string | number;
+
+  // canvas
+  width?: string | number;
+  height?: string | number;
+  aspect?: string; // "16:9" | "1.5"
+  margin?: string | number;
+  padding?: string | number;
+  legend?: string;
 
   // behavior
   depth?: string | number;
   dirsOnly?: boolean;
   noDirs?: boolean;
+  dirStats?: boolean;
+  maxChildren?: string | number;
+  minRadius?: string | number;
+  sizeBy?: string;
+  scale?: string;
+  minWeight?: string | number;
+  maxWeight?: string | number;
+  symlinks?: string;
+  symlinkRoot?: string;
+  maxEntries?: string | number;
+  noCache?: boolean;
+  cacheDir?: string;
+  theme?: string;
   bg?: string;
   palette?: string;
   extColors?: string;
+  colorBy?: string;
   contrast?: string;
 
   // ignoring
   ignore?: string;
   ignoreFile?: string;
   noIgnoreFile?: boolean;
+  gitignore?: boolean;
+  gitTracked?: boolean;
 
   // html template
   htmlTemplate?: string; // "default" | path | url
@@ -99,6 +250,24 @@ export interface RawCLI {
   templateTimeout?: string | number; // ms
   templateHash?: string;
 
+  // snapshots
+  fromSnapshot?: string;
+  compare?: string;
+  diffColor?: string;
+
+  // report
+  report?: boolean;
+  reportFormat?: string;
+  reportTop?: string | number;
+  watch?: boolean;
+  serve?: boolean | string; // --serve [port]
+
+  // config
+  config?: string; // explicit config file (default: discovered)
+  printConfig?: boolean;
+  strict?: boolean;
+  jsonErrors?: boolean; // failures as one JSON line on stderr (CLI only)
+
   // verbosity
   verbose?: boolean;
   quiet?: boolean;
@@ -107,27 +276,82 @@ export interface RawCLI {
 export const DEFAULTS = Object.freeze({
   outDir: 'output',
   outputs: { svg: true, html: true, json: true, png: false } as OutputMode,
+  pngScale: 1,
+  canvas: {
+    width: 1100,
+    height: 900,
+    margin: 24,
+    padding: 2,
+    legend: 'right',
+  } as CanvasOptions,
   depth: -1,
   dirsOnly: false,
   noDirs: false,
-  bgColor: '#ffffff',
+  dirStats: false,
+  maxChildren: null as number | null,
+  minRadius: 0,
+  sizeBy: 'bytes' as SizeMetric,
+  scale: 'log' as SizeScale,
+  minWeight: 1,
+  maxWeight: 100,
+  symlinks: 'skip' as SymlinkMode,
+  symlinkRoot: null as string | null,
+  maxEntries: null as number | null,
+  cache: true,
+  cacheDir: defaultCacheDir(),
+  theme: 'light' as ThemeName,
   palette: 'dark2' as PaletteMode,
   extColors: {} as Record<string, string>,
+  colorBy: 'ext' as ColorMode,
+  languages: {} as Record<string, string>,
+  categories: {} as Record<string, FileCategory>,
   contrast: 'auto' as ContrastMode,
   ignoreFile: '.lsignore',
   ignorePatterns: [] as string[],
+  gitignore: false,
+  gitTracked: false,
+  fromSnapshot: null as string | null,
+  compare: null as string | null,
+  diffColor: 'change' as DiffColorMode,
+  report: false,
+  reportFormat: 'table' as ReportFormat,
+  reportTop: 10,
+  watch: false,
+  serve: null as number | null,
+  servePort: 4321, // --serve without a port
+  strict: false,
   verbose: true,
   htmlTemplate: { kind: 'default' } as HtmlTemplate,
   templateCacheDir: '.lsphere-cache',
   templateTimeoutMs: 10_000,
 });
 
-export function resolveOptions(raw: RawCLI): Options {
+// A problem found while resolving options. Errors fall back like warnings but
+// make the CLI exit with code 2; --strict promotes warnings to errors.
+export interface OptionIssue {
+  level: 'error' | 'warning';
+  flag: string; // e.g. "--palette", or the config key
+  message: string;
+}
+
+/**
+ * Layer built-in DEFAULTS, then the project config file, then CLI flags
+ * (flags that were not given are undefined in `raw`). Invalid values fall back
+ * to the layer below and are reported in `issues`.
+ */
+export function resolveOptions(
+  raw: RawCLI = {},
+  config: ConfigFile = {},
+  issues: OptionIssue[] = [],
+): Options {
+  const found: OptionIssue[] = [];
   const targetPath =
-    raw.targetPath && raw.targetPath.trim().length > 0 ? raw.targetPath : '.';
+    raw.targetPath && raw.targetPath.trim().length > 0
+      ? raw.targetPath
+      : (config.targetPath ?? '.');
 
   // Start from defaults
-  let outputs: OutputMode = { ...DEFAULTS.outputs };
+  let outputs: OutputMode = { ...DEFAULTS.outputs, ...config.outputs };
   if (raw.composite) {
     outputs = { svg: true, html: true, json: true, png: outputs.png };
   }
@@ -136,60 +360,450 @@ export function resolveOptions(raw: RawCLI): Options {
   if (typeof raw.json === 'boolean') outputs.json = raw.json;
   if (typeof raw.png === 'boolean') outputs.png = raw.png;
 
-  // HTML implies JSON
-  if (outputs.html) outputs.json = true;
+  // Inline HTML is still HTML
+  const htmlInline = raw.htmlInline ?? config.htmlInline ?? false;
+  if (htmlInline) outputs.html = true;
+
+  // HTML implies JSON (unless the snapshot is embedded in the page)
+  if (outputs.html && !htmlInline) outputs.json = true;
 
-  const depthNum = (() => {
-    if (raw.depth === undefined || raw.depth === null || raw.depth === '')
-      return DEFAULTS.depth;
-    const n = typeof raw.depth === 'string' ? Number(raw.depth) : raw.depth;
-    if (!Number.isFinite(n)) return DEFAULTS.depth;
-    return Math.trunc(n);
+  // --png-dpi wins over --png-scale; SVG units are 96 dpi
+  const pngScale = (() => {
+    const dpi = readNumber(raw.pngDpi, '--png-dpi', 'positive', found);
+    const scale = readNumber(raw.pngScale, '--png-scale', 'positive', found);
+    if (dpi !== undefined) {
+      if (scale !== undefined)
+        warn(found, '--png-scale', 'ignored because --png-dpi is given');
+      return dpi / 96;
+    }
+    return scale ?? config.pngScale ?? DEFAULTS.pngScale;
   })();
 
-  const extColors = parseExtColors(raw.extColors);
+  const canvas = resolveCanvas(raw, config, found);
+
+  const depthNum =
+    readNumber(raw.depth, '--depth', 'integer', found) ??
+    config.depth ??
+    DEFAULTS.depth;
+
+  // flags override the config per extension
+  const extColors = {
+    ...(config.extColors ?? DEFAULTS.extColors),
+    ...parseExtColors(raw.extColors, found),
+  };
+  for (const [ext, color] of Object.entries(config.extColors ?? {}))
+    if (!isCssColor(color))
+      error(found, `extColors.${ext}`, `not a CSS color: "${color}"`);
   const ignorePatterns = raw.ignore
     ? raw.ignore.trim().split(/\s+/).filter(Boolean)
-    : DEFAULTS.ignorePatterns;
+    : (config.ignorePatterns ?? DEFAULTS.ignorePatterns);
   const ignoreFile =
-    raw.noIgnoreFile === true ? null : (raw.ignoreFile ?? DEFAULTS.ignoreFile);
-  const verbose = raw.quiet ? false : (raw.verbose ?? DEFAULTS.verbose);
-  const contrast = normalizeContrast(raw.contrast);
-  const palette = normalizePalette(raw.palette);
-  const bgColor = raw.bg ?? DEFAULTS.bgColor;
-  const dirsOnly = !!raw.dirsOnly;
-  const noDirs = !!raw.noDirs;
-  const outDir = raw.out ?? DEFAULTS.outDir;
+    raw.noIgnoreFile === true
+      ? null
+      : (raw.ignoreFile ??
+        (config.ignoreFile !== undefined
+          ? config.ignoreFile
+          : DEFAULTS.ignoreFile));
+  const verbose = raw.quiet
+    ? false
+    : (raw.verbose ?? config.verbose ?? DEFAULTS.verbose);
+  const strict = raw.strict ?? config.strict ?? DEFAULTS.strict;
+  const contrast = pickOne(
+    CONTRAST_MODES,
+    raw.contrast ?? config.contrast,
+    DEFAULTS.contrast,
+    '--contrast',
+    found,
+  );
+  const sizeBy = pickOne(
+    SIZE_METRICS,
+    raw.sizeBy ?? config.sizeBy,
+    DEFAULTS.sizeBy,
+    '--size-by',
+    found,
+  );
+  const scale = pickOne(
+    SIZE_SCALES,
+    raw.scale ?? config.scale,
+    DEFAULTS.scale,
+    '--scale',
+    found,
+  );
+  // weights must stay positive and ordered, otherwise fall back to defaults
+  let minWeight =
+    readNumber(raw.minWeight, '--min-weight', 'positive', found) ??
+    config.minWeight ??
+    DEFAULTS.minWeight;
+  let maxWeight =
+    readNumber(raw.maxWeight, '--max-weight', 'positive', found) ??
+    config.maxWeight ??
+    DEFAULTS.maxWeight;
+  if (maxWeight <= minWeight) {
+    warn(
+      found,
+      '--min-weight',
+      `must be below --max-weight (${minWeight} >= ${maxWeight}); using ${DEFAULTS.minWeight}..${DEFAULTS.maxWeight}`,
+    );
+    minWeight = DEFAULTS.minWeight;
+    maxWeight = DEFAULTS.maxWeight;
+  }
+  const palette = resolvePalette(
+    raw.palette ?? config.palette,
+    raw.palette !== undefined ? '--palette' : 'palette',
+    found,
+  );
+  const colorBy = pickOne(
+    COLOR_MODES,
+    raw.colorBy ?? config.colorBy,
+    DEFAULTS.colorBy,
+    '--color-by',
+    found,
+  );
+  const theme =
+    THEMES[
+      pickOne(
+        THEME_NAMES,
+        raw.theme ?? config.theme,
+        DEFAULTS.theme,
+        '--theme',
+        found,
+      )
+    ];
+  const bgColor = (() => {
+    const v = raw.bg ?? config.bgColor;
+    if (v === undefined) return theme.background;
+    if (isCssColor(v)) return v;
+    error(
+      found,
+      raw.bg !== undefined ? '--bg' : 'bgColor',
+      `not a CSS color: "${v}"`,
+    );
+    return theme.background;
+  })();
+  const maxChildren = (() => {
+    const n =
+      readNumber(raw.maxChildren, '--max-children', 'positive', found) ??
+      config.maxChildren;
+    return n === undefined || n === null
+      ? DEFAULTS.maxChildren
+      : Math.max(1, Math.trunc(n));
+  })();
+  const maxEntries = (() => {
+    const n =
+      readNumber(raw.maxEntries, '--max-entries', 'positive', found) ??
+      config.maxEntries;
+    return n === undefined || n === null
+      ? DEFAULTS.maxEntries
+      : Math.max(1, Math.trunc(n));
+  })();
+  const serve = (() => {
+    const n =
+      raw.serve === true
+        ? DEFAULTS.servePort
+        : (readNumber(raw.serve || undefined, '--serve', 'integer', found) ??
+          config.serve);
+    if (n === undefined || n === null) return DEFAULTS.serve;
+    if (n >= 0 && n <= 65535) return n;
+    error(
+      found,
+      raw.serve !== undefined ? '--serve' : 'serve',
+      `expected a port (0-65535), got "${n}"`,
+    );
+    return DEFAULTS.serve;
+  })();
+  const minRadius =
+    readNumber(raw.minRadius, '--min-radius', 'non-negative', found) ??
+    config.minRadius ??
+    DEFAULTS.minRadius;
+  const reportFormat = pickOne(
+    REPORT_FORMATS,
+    raw.reportFormat ?? config.reportFormat,
+    DEFAULTS.reportFormat,
+    '--report-format',
+    found,
+  );
+  const reportTop = Math.max(
+    1,
+    Math.trunc(
+      readNumber(raw.reportTop, '--report-top', 'positive', found) ??
+        config.reportTop ??
+        DEFAULTS.reportTop,
+    ),
+  );
+  const dirsOnly = raw.dirsOnly ?? config.dirsOnly ?? DEFAULTS.dirsOnly;
+  const noDirs = raw.noDirs ?? config.noDirs ?? DEFAULTS.noDirs;
+  const outDir = raw.out ?? config.outDir ?? DEFAULTS.outDir;
 
   const htmlTemplate = resolveHtmlTemplate({
-    src: raw.htmlTemplate,
-    cacheDir: raw.templateCacheDir ?? DEFAULTS.templateCacheDir,
-    noNetwork: !!raw.noNetwork,
-    timeoutMs: toMs(raw.templateTimeout) ?? DEFAULTS.templateTimeoutMs,
-    hash: raw.templateHash,
+    src: raw.htmlTemplate ?? config.htmlTemplate,
+    cacheDir:
+      raw.templateCacheDir ??
+      config.templateCacheDir ??
+      DEFAULTS.templateCacheDir,
+    noNetwork: raw.noNetwork ?? config.noNetwork ?? false,
+    timeoutMs: Math.trunc(
+      readNumber(
+        raw.templateTimeout,
+        '--template-timeout',
+        'positive',
+        found,
+      ) ??
+        config.templateTimeoutMs ??
+        DEFAULTS.templateTimeoutMs,
+    ),
+    hash: raw.templateHash ?? config.templateHash,
   });
 
+  const symlinks = pickOne(
+    SYMLINK_MODES,
+    raw.symlinks ?? config.symlinks,
+    DEFAULTS.symlinks,
+    '--symlinks',
+    found,
+  );
+  const diffColor = pickOne(
+    DIFF_COLOR_MODES,
+    raw.diffColor ?? config.diffColor,
+    DEFAULTS.diffColor,
+    '--diff-color',
+    found,
+  );
+
+  // every validated field is resolved above: `found` is complete here
+  for (const issue of found)
+    issues.push(strict ? { ...issue, level: 'error' } : issue);
+
   return Object.freeze({
     targetPath,
     outDir,
     outputs,
+    pngScale,
+    canvas,
     depth: depthNum,
     dirsOnly,
     noDirs,
+    dirStats: raw.dirStats ?? config.dirStats ?? DEFAULTS.dirStats,
+    maxChildren,
+    minRadius,
+    sizeBy,
+    scale,
+    minWeight,
+    maxWeight,
+    symlinks,
+    symlinkRoot: raw.symlinkRoot ?? config.symlinkRoot ?? DEFAULTS.symlinkRoot,
+    maxEntries,
+    cache: raw.noCache ? false : (config.cache ?? DEFAULTS.cache),
+    cacheDir: raw.cacheDir ?? config.cacheDir ?? DEFAULTS.cacheDir,
+    theme,
     bgColor,
     palette,
     extColors,
+    colorBy,
+    languages: config.languages ?? DEFAULTS.languages,
+    categories: config.categories ?? DEFAULTS.categories,
     contrast,
     ignoreFile,
     ignorePatterns,
+    gitignore: raw.gitignore ?? config.gitignore ?? DEFAULTS.gitignore,
+    gitTracked: raw.gitTracked ?? config.gitTracked ?? DEFAULTS.gitTracked,
     htmlTemplate,
+    htmlInline,
+    fromSnapshot:
+      raw.fromSnapshot ?? config.fromSnapshot ?? DEFAULTS.fromSnapshot,
+    compare: raw.compare ?? config.compare ?? DEFAULTS.compare,
+    diffColor,
+    report: raw.report ?? config.report ?? DEFAULTS.report,
+    reportFormat,
+    reportTop,
+    watch: raw.watch ?? config.watch ?? DEFAULTS.watch,
+    serve,
+    strict,
     verbose,
   });
 }
 
+/** Closest candidate within a small edit distance, for "did you mean" hints. */
+export function closest(
+  value: string,
+  candidates: readonly string[],
+): string | null {
+  let best: string | null = null;
+  let bestDist = Math.max(2, Math.floor(value.length / 3)) + 1;
+  for (const c of candidates) {
+    const d = editDistance(value.toLowerCase(), c.toLowerCase());
+    if (d < bestDist) {
+      best = c;
+      bestDist = d;
+    }
+  }
+  return best;
+}
+
 // ---------- helpers ----------
 
-function parseExtColors(mapStr?: string): Record<string, string> {
+function error(issues: OptionIssue[], flag: string, message: string) {
+  issues.push({ level: 'error', flag, message });
+}
+
+function warn(issues: OptionIssue[], flag: string, message: string) {
+  issues.push({ level: 'warning', flag, message });
+}
+
+// Enum value (case-insensitive); unknown values are errors with a hint
+function pickOne<T extends string>(
+  values: readonly T[],
+  v: string | undefined,
+  fallback: T,
+  flag: string,
+  issues: OptionIssue[],
+): T {
+  if (v === undefined) return fallback;
+  const s = v.toString().toLowerCase();
+  if ((values as readonly string[]).includes(s)) return s as T;
+  const hint = closest(s, values);
+  error(
+    issues,
+    flag,
+    `unknown value "${v}"${hint ? ` (did you mean "${hint}"?)` : ''}; expected ${values.join('|')}`,
+  );
+  return fallback;
+}
+
+type NumberKind = 'positive' | 'non-negative' | 'integer';
+
+const NUMBER_EXPECT: Record<NumberKind, string> = {
+  positive: 'a positive number',
+  'non-negative': 'a number >= 0',
+  integer: 'an integer',
+};
+
+// Numeric flag; undefined when absent or invalid (invalid is an error)
+function readNumber(
+  v: string | number | undefined,
+  flag: string,
+  kind: NumberKind,
+  issues: OptionIssue[],
+): number | undefined {
+  if (v === undefined || v === null || v === '') return undefined;
+  const n = typeof v === 'string' ? Number(v) : v;
+  const ok =
+    Number.isFinite(n) &&
+    (kind === 'positive'
+      ? n > 0
+      : kind === 'non-negative'
+        ? n >= 0
+        : Number.isInteger(n));
+  if (ok) return n;
+  error(issues, flag, `expected ${NUMBER_EXPECT[kind]}, got "${v}"`);
+  return undefined;
+}
+
+function isCssColor(v: string): boolean {
+  return color(v) !== null;
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++)
+      cur[j] = Math.min(
+        prev[j] + 1,
+        cur[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+function resolvePalette(
+  v: string | string[] | undefined,
+  flag: string,
+  issues: OptionIssue[],
+): Palette {
+  const fallback = namedPalette(DEFAULTS.palette) as Palette;
+  if (v === undefined) return fallback;
+  if (Array.isArray(v)) return colorList(v, 'custom', flag, issues) ?? fallback;
+
+  const s = v.trim();
+  const named = namedPalette(s.toLowerCase());
+  if (named) return named;
+  if (s.includes(','))
+    return (
+      colorList(
+        s
+          .split(',')
+          .map((c) => c.trim())
+          .filter(Boolean),
+        'custom',
+        flag,
+        issues,
+      ) ?? fallback
+    );
+  if (isPaletteFile(s)) {
+    try {
+      return colorList(readPaletteFile(s), s, flag, issues) ?? fallback;
+    } catch (err: unknown) {
+      error(
+        issues,
+        flag,
+        `cannot read palette file ${s} (${errorMessage(err)})`,
+      );
+      return fallback;
+    }
+  }
+
+  const hint = closest(s, PALETTES);
+  error(
+    issues,
+    flag,
+    `unknown palette "${v}"${hint ? ` (did you mean "${hint}"?)` : ''}; expected a name (${PALETTES.join('|')}), a comma-separated color list or a palette file`,
+  );
+  return fallback;
+}
+
+// A --palette value naming a file rather than a palette or color list
+export function isPaletteFile(v: string): boolean {
+  const s = v.trim();
+  return !s.includes(',') && /[\\/]|\.(json|txt)$/i.test(s);
+}
+
+function namedPalette(name: string): Palette | null {
+  if (name === 'auto') return { kind: 'auto', name };
+  if ((SCHEME_NAMES as readonly string[]).includes(name))
+    return { kind: 'colors', name, colors: pickD3Scheme(name as SchemeName) };
+  if ((INTERPOLATOR_NAMES as readonly string[]).includes(name))
+    return { kind: 'interpolator', name: name as InterpolatorName };
+  return null;
+}
+
+function colorList(
+  colors: string[],
+  name: string,
+  flag: string,
+  issues: OptionIssue[],
+): Palette | undefined {
+  const bad = colors.filter((c) => !isCssColor(c));
+  if (bad.length) {
+    error(
+      issues,
+      flag,
+      `not CSS colors: ${bad.map((c) => `"${c}"`).join(', ')}`,
+    );
+    return undefined;
+  }
+  if (!colors.length) {
+    error(issues, flag, 'palette has no colors');
+    return undefined;
+  }
+  return { kind: 'colors', name, colors };
+}
+
+function parseExtColors(
+  mapStr: string | undefined,
+  issues: OptionIssue[],
+): Record<string, string> {
   if (!mapStr || !mapStr.trim()) return DEFAULTS.extColors;
   const out: Record<string, string> = {};
   for (const entry of mapStr
@@ -197,44 +811,80 @@ function parseExtColors(mapStr?: string): Record<string, string> {
     .map((s) => s.trim())
     .filter(Boolean)) {
     const idx = entry.indexOf('=');
-    if (idx <= 0) continue;
-    let ext = entry.slice(0, idx).trim();
-    const color = entry.slice(idx + 1).trim();
-    if (!ext || !color) continue;
+    let ext = entry.slice(0, Math.max(0, idx)).trim();
+    const value = entry.slice(idx + 1).trim();
+    if (idx <= 0 || !ext || !value) {
+      warn(issues, '--ext-colors', `ignored "${entry}" (expected .ext=color)`);
+      continue;
+    }
+    if (!isCssColor(value)) {
+      error(issues, '--ext-colors', `not a CSS color for ${ext}: "${value}"`);
+      continue;
+    }
     if (!ext.startsWith('.')) ext = `.${ext}`;
-    out[ext] = color;
+    out[ext] = value;
   }
   return out;
 }
 
-function normalizeContrast(v?: string): ContrastMode {
-  const s = (v ?? DEFAULTS.contrast).toString().toLowerCase();
-  return s === 'on' || s === 'off' ? (s as ContrastMode) : 'auto';
+// Width/height/aspect: an aspect ratio derives the missing side (height from
+// width unless only --height was given).
+function resolveCanvas(
+  raw: RawCLI,
+  config: ConfigFile,
+  issues: OptionIssue[],
+): CanvasOptions {
+  const d = { ...DEFAULTS.canvas, ...config.canvas };
+  const aspect = parseAspect(raw.aspect, issues);
+  let width = readNumber(raw.width, '--width', 'positive', issues);
+  let height = readNumber(raw.height, '--height', 'positive', issues);
+  if (aspect !== undefined) {
+    if (width !== undefined && height !== undefined)
+      warn(
+        issues,
+        '--height',
+        'ignored because --aspect derives it from --width',
+      );
+    if (width === undefined && height !== undefined) width = height * aspect;
+    else height = (width ?? d.width) / aspect;
+  }
+  return {
+    width: Math.round(width ?? d.width),
+    height: Math.round(height ?? d.height),
+    margin:
+      readNumber(raw.margin, '--margin', 'non-negative', issues) ?? d.margin,
+    padding:
+      readNumber(raw.padding, '--padding', 'non-negative', issues) ?? d.padding,
+    legend: pickOne(
+      LEGEND_PLACEMENTS,
+      raw.legend,
+      d.legend,
+      '--legend',
+      issues,
+    ),
+  };
 }
 
-function normalizePalette(v?: string): PaletteMode {
-  const s = (v ?? DEFAULTS.palette).toString().toLowerCase();
-  return [
-    'category10',
-    'tableau10',
-    'set3',
-    'paired',
-    'dark2',
-    'accent',
-    'pastel1',
-    'pastel2',
-    'set1',
-    'set2',
-  ].includes(s)
-    ? (s as PaletteMode)
-    : 'dark2';
+function parseAspect(
+  v: string | undefined,
+  issues: OptionIssue[],
+): number | undefined {
+  if (!v) return undefined;
+  const m = /^\s*(\d+(?:\.\d+)?)\s*[:/x]\s*(\d+(?:\.\d+)?)\s*$/.exec(v);
+  const n = m ? Number(m[1]) / Number(m[2]) : Number(v);
+  if (Number.isFinite(n) && n > 0) return n;
+  error(issues, '--aspect', `expected a ratio like 16:9 or 1.5, got "${v}"`);
+  return undefined;
 }
 
-function toMs(v?: string | number): number | undefined {
-  if (v === undefined || v === null || v === '') return undefined;
-  const n = typeof v === 'string' ? Number(v) : v;
-  if (!Number.isFinite(n)) return undefined;
-  return Math.trunc(n);
+// An --html-template source to fetch (http(s), optionally git+), not a path
+export function isTemplateUrl(src: string): boolean {
+  try {
+    const u = new URL(src.startsWith('git+') ? src.slice(4) : src);
+    return u.protocol === 'http:' || u.protocol === 'https:';
+  } catch {
+    return false;
+  }
 }
 
 function resolveHtmlTemplate(params: {
@@ -248,16 +898,7 @@ function resolveHtmlTemplate(params: {
   if (!src || src === 'default') {
     return { kind: 'default' };
   }
-  // Is it a URL?
-  const isUrl = (() => {
-    try {
-      const u = new URL(src.startsWith('git+') ? src.slice(4) : src);
-      return u.protocol === 'http:' || u.protocol === 'https:';
-    } catch {
-      return false;
-    }
-  })();
-  if (isUrl) {
+  if (isTemplateUrl(src)) {
     return {
       kind: 'remote',
       url: src,
@@ -1,3 +1,5 @@
+import { readFileSync } from 'fs';
+import { hcl } from 'd3-color';
 import {
   schemeTableau10,
   schemeCategory10,
@@ -9,31 +11,141 @@ import {
   schemePastel2,
   schemeSet1,
   schemeSet2,
+  interpolateViridis,
+  interpolateInferno,
+  interpolateMagma,
+  interpolatePlasma,
+  interpolateCividis,
+  interpolateTurbo,
+  interpolateWarm,
+  interpolateCool,
+  interpolateCubehelixDefault,
+  interpolateRainbow,
+  interpolateSinebow,
+  interpolateSpectral,
 } from 'd3-scale-chromatic';
 
+export type SchemeName =
+  | 'category10'
+  | 'tableau10'
+  | 'set3'
+  | 'paired'
+  | 'dark2'
+  | 'accent'
+  | 'pastel1'
+  | 'pastel2'
+  | 'set1'
+  | 'set2';
+
+export type InterpolatorName =
+  | 'viridis'
+  | 'inferno'
+  | 'magma'
+  | 'plasma'
+  | 'cividis'
+  | 'turbo'
+  | 'warm'
+  | 'cool'
+  | 'cubehelix'
+  | 'rainbow'
+  | 'sinebow'
+  | 'spectral';
+
+export const SCHEMES: Record<SchemeName, readonly string[]> = {
+  category10: schemeCategory10,
+  tableau10: schemeTableau10,
+  set3: schemeSet3,
+  paired: schemePaired,
+  dark2: schemeDark2,
+  accent: schemeAccent,
+  pastel1: schemePastel1,
+  pastel2: schemePastel2,
+  set1: schemeSet1,
+  set2: schemeSet2,
+};
+
+const INTERPOLATORS: Record<InterpolatorName, (t: number) => string> = {
+  viridis: interpolateViridis,
+  inferno: interpolateInferno,
+  magma: interpolateMagma,
+  plasma: interpolatePlasma,
+  cividis: interpolateCividis,
+  turbo: interpolateTurbo,
+  warm: interpolateWarm,
+  cool: interpolateCool,
+  cubehelix: interpolateCubehelixDefault,
+  rainbow: interpolateRainbow,
+  sinebow: interpolateSinebow,
+  spectral: interpolateSpectral,
+};
+
+// Cyclic ramps end where they start, so sample them on [0, 1)
+const CYCLIC = new Set<InterpolatorName>(['rainbow', 'sinebow']);
+
+export const SCHEME_NAMES = Object.keys(SCHEMES) as SchemeName[];
+export const INTERPOLATOR_NAMES = Object.keys(
+  INTERPOLATORS,
+) as InterpolatorName[];
+
+/**
+ * A resolved --palette:
+ *  - colors: fixed list (a D3 scheme, a comma-separated list or a file), cycled
+ *  - interpolator: a continuous D3 ramp sampled to the number of categories
+ *  - auto: one distinct color per category
+ */
+export type Palette =
+  | { kind: 'colors'; name: string; colors: readonly string[] }
+  | { kind: 'interpolator'; name: InterpolatorName }
+  | { kind: 'auto'; name: 'auto' };
+
 export function pickD3Scheme(name?: string): readonly string[] {
-  switch ((name ?? 'tableau10').toLowerCase()) {
-    case 'category10':
-      return schemeCategory10;
-    case 'tableau10':
-      return schemeTableau10;
-    case 'set3':
-      return schemeSet3;
-    case 'paired':
-      return schemePaired;
-    case 'dark2':
-      return schemeDark2;
-    case 'accent':
-      return schemeAccent;
-    case 'pastel1':
-      return schemePastel1;
-    case 'pastel2':
-      return schemePastel2;
-    case 'set1':
-      return schemeSet1;
-    case 'set2':
-      return schemeSet2;
-    default:
-      return schemeTableau10;
+  return SCHEMES[(name ?? 'dark2').toLowerCase() as SchemeName] ?? schemeDark2;
+}
+
+/** Colors for `n` categories; fixed lists are returned as-is (and cycled). */
+export function paletteColors(palette: Palette, n: number): readonly string[] {
+  const count = Math.max(1, n);
+  switch (palette.kind) {
+    case 'colors':
+      return palette.colors;
+    case 'interpolator': {
+      const ramp = INTERPOLATORS[palette.name];
+      const steps = CYCLIC.has(palette.name) ? count : count - 1;
+      return Array.from({ length: count }, (_, i) =>
+        ramp(steps > 0 ? i / steps : 0.5),
+      );
+    }
+    case 'auto': {
+      // the default scheme while it lasts, then evenly spread HCL hues
+      const scheme = pickD3Scheme();
+      return count <= scheme.length ? scheme : distinctColors(count);
+    }
+  }
+}
+
+// Golden-angle hue steps with three lightness bands: adjacent categories
+// never share a hue, and every color stays unique.
+function distinctColors(n: number): string[] {
+  const bands = [55, 72, 40];
+  return Array.from({ length: n }, (_, i) =>
+    hcl((i * 137.508) % 360, 55, bands[i % bands.length]).formatHex(),
+  );
+}
+
+/**
+ * Colors from a palette file: a JSON array of strings, or plain text with
+ * one color per line (blank lines and # comments are skipped).
+ */
+export function readPaletteFile(file: string): string[] {
+  const text = readFileSync(file, 'utf8');
+  if (text.trimStart().startsWith('[')) {
+    const data: unknown = JSON.parse(text);
+    if (!Array.isArray(data) || !data.every((c) => typeof c === 'string'))
+      throw new Error('expected a JSON array of color strings');
+    return data;
   }
+  return text
+    .split(/\r?\n/)
+    .map((l) => l.replace(/#(?![0-9a-f]{3,8}\b).*$/i, '').trim())
+    .filter(Boolean);
 }
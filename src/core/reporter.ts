@@ -1,5 +1,6 @@
 import * as process from 'node:process';
 import * as kleur from 'kleur';
+import { LsphereError } from './errors';
 
 export type ExitCode =
   | 0 // OK
@@ -13,6 +14,7 @@ export interface ReporterOptions {
   verbose: boolean; // show info/success/debug when true
   useColor?: boolean; // override auto-detection, default auto
   scope?: string; // optional scope prefix, e.g., "cli" | "render" | "scan"
+  json?: boolean; // warnings + errors as JSON lines on stderr (--json-errors)
 }
 
 export interface Reporter {
@@ -21,6 +23,8 @@ export interface Reporter {
   warn: (msg: string) => void; // stderr (always shown)
   error: (msg: string) => void; // stderr (always shown)
   debug: (msg: string) => void; // stdout (only if verbose)
+  print: (text: string) => void; // stdout as-is, always (reports, JSON)
+  progress: (msg: string | null) => void; // one self-replacing stderr line (TTY + verbose only); null clears it
   exit: (code: ExitCode, msg?: string) => never; // print (if provided) then process.exit(code)
 }
 
@@ -47,29 +51,65 @@ export function createReporter(opts: ReporterOptions): Reporter {
 
   const scopePfx = prefix(opts.scope);
 
+  // the progress line is erased before anything else is written; JSON
+  // stderr stays free of it
+  const live = opts.verbose && !opts.json && process.stderr.isTTY === true;
+  let progressShown = false;
+  const clearProgress = () => {
+    if (!progressShown) return;
+    process.stderr.write('\r\x1b[K');
+    progressShown = false;
+  };
+
+  const progress = (msg: string | null) => {
+    if (!live) return;
+    clearProgress();
+    if (msg === null) return;
+    process.stderr.write(`${scopePfx}${K.gray(msg)}`);
+    progressShown = true;
+  };
+
   const info = (msg: string) => {
     if (!opts.verbose) return;
+    clearProgress();
     process.stdout.write(`${scopePfx}${K.cyan('ℹ︎')} ${msg}\n`);
   };
 
   const success = (msg: string) => {
     if (!opts.verbose) return;
+    clearProgress();
     process.stdout.write(`${scopePfx}${K.green('✓')} ${msg}\n`);
   };
 
   const warn = (msg: string) => {
-    process.stderr.write(`${scopePfx}${K.yellow('[warn]')} ${msg}\n`);
+    clearProgress();
+    process.stderr.write(
+      opts.json
+        ? `${JSON.stringify({ warning: { message: msg } })}\n`
+        : `${scopePfx}${K.yellow('[warn]')} ${msg}\n`,
+    );
   };
 
   const error = (msg: string) => {
-    process.stderr.write(`${scopePfx}${K.red('✖')} ${msg}\n`);
+    clearProgress();
+    process.stderr.write(
+      opts.json
+        ? `${JSON.stringify({ error: { message: msg } })}\n`
+        : `${scopePfx}${K.red('✖')} ${msg}\n`,
+    );
   };
 
   const debug = (msg: string) => {
     if (!opts.verbose) return;
+    clearProgress();
     process.stdout.write(`${scopePfx}${K.magenta('…')} ${msg}\n`);
   };
 
+  const print = (text: string) => {
+    clearProgress();
+    process.stdout.write(text.endsWith('\n') ? text : `${text}\n`);
+  };
+
   const exit = (code: ExitCode, msg?: string): never => {
     if (msg) {
       if (code === 0) success(msg);
@@ -79,5 +119,23 @@ export function createReporter(opts: ReporterOptions): Reporter {
     process.exit(code);
   };
 
-  return { info, success, warn, error, debug, exit };
+  return { info, success, warn, error, debug, print, progress, exit };
+}
+
+// For library callers: prints nothing, and `exit` throws an LsphereError with
+// the exit code instead of ending the process
+export function createSilentReporter(): Reporter {
+  const quiet = () => undefined;
+  return {
+    info: quiet,
+    success: quiet,
+    warn: quiet,
+    error: quiet,
+    debug: quiet,
+    print: quiet,
+    progress: quiet,
+    exit: (code, msg) => {
+      throw new LsphereError(msg ?? `exit code ${code}`, code);
+    },
+  };
 }
@@ -1,59 +1,129 @@
 import * as fssync from 'node:fs';
+import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import ignore from 'ignore';
 
-import type { Options } from './options';
-import type { DirectoryTree, DirNode, FileNode } from './model';
+import { GIT_COLOR_MODES, type Options, type SymlinkMode } from './options';
+import type {
+  DirectoryTree,
+  DirNode,
+  FileNode,
+  GitInfo,
+  LinkNode,
+  TreeNode,
+} from './model';
+import { countLines, type SizeMetric } from './metrics';
+import {
+  loadScanCache,
+  type DirEntry,
+  type DirLeaves,
+  type ScanCache,
+} from './cache';
+import {
+  isGitWorkTree,
+  loadTrackedSet,
+  readGitHistory,
+  type TrackedSet,
+} from './git';
+import { createClassifier, type Classifier } from './languages';
+import { dirStats } from './stats';
 import { createReporter } from './reporter';
+import { errorMessage, LsphereError, ScanError } from './errors';
 
 type Ig = ReturnType<typeof ignore>;
 
+// One ignore source anchored at a directory (patterns are relative to `base`).
+interface IgnoreLayer {
+  base: string; // POSIX rel dir from root ('' = root)
+  ig: Ig;
+}
+
+// Layers from the root down to the current directory, in precedence order:
+// later layers win, like nested .gitignore files in git.
+type IgnoreStack = readonly IgnoreLayer[];
+
 function extOf(name: string): string {
   const e = path.extname(name);
   return e || '';
 }
 
-function buildIgnoreMatcher(
+// null when the file does not exist (or cannot be read)
+async function readPatterns(filePath: string): Promise<string[] | null> {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, 'utf8');
+  } catch {
+    return null;
+  }
+  return text
+    .split(/\r?\n/)
+    .map((l) => l.trimEnd())
+    .filter((l) => l.trim() && !l.startsWith('#'));
+}
+
+async function loadLayer(
+  filePath: string,
+  base: string,
+  reporter: ReturnType<typeof createReporter>,
+): Promise<IgnoreLayer | null> {
+  const patterns = await readPatterns(filePath);
+  if (!patterns?.length) return null;
+
+  reporter.info(`loaded ${patterns.length} ignore pattern(s) from ${filePath}`);
+  for (const pat of patterns) reporter.debug(`  ignore: ${pat}`);
+  return { base, ig: ignore().add(patterns) };
+}
+
+// Ignore files looked up in every subdirectory: .gitignore (with --gitignore)
+// and the ignore file itself when given by name (e.g. ".lsignore"), not by path.
+function nestedIgnoreNames(options: Options): string[] {
+  const names: string[] = [];
+  if (options.gitignore) names.push('.gitignore');
+  const f = options.ignoreFile;
+  if (f && !path.isAbsolute(f) && !f.includes('/') && !f.includes(path.sep))
+    names.push(f);
+  return names;
+}
+
+async function buildIgnoreMatcher(
   rootAbs: string,
   options: Options,
   reporter: ReturnType<typeof createReporter>,
-): Ig | null {
-  const ig = ignore();
-  let added = false;
+): Promise<IgnoreStack> {
+  const layers: IgnoreLayer[] = [];
+  const push = (l: IgnoreLayer | null) => l && layers.push(l);
+
+  // 1) git excludes (lowest precedence); git never looks inside .git itself
+  if (options.gitignore) {
+    layers.push({ base: '', ig: ignore().add('.git/') });
+    push(
+      await loadLayer(
+        path.join(rootAbs, '.git', 'info', 'exclude'),
+        '',
+        reporter,
+      ),
+    );
+    push(await loadLayer(path.join(rootAbs, '.gitignore'), '', reporter));
+  }
 
-  // 1) file-based patterns
+  // 2) file-based patterns
   if (options.ignoreFile) {
     const filePath = path.isAbsolute(options.ignoreFile)
       ? options.ignoreFile
       : path.join(rootAbs, options.ignoreFile);
 
-    if (fssync.existsSync(filePath)) {
-      const filePatterns = fssync
-        .readFileSync(filePath, 'utf8')
-        .split(/\r?\n/)
-        .map((l) => l.trim())
-        .filter((l) => l && !l.startsWith('#'));
-
-      if (filePatterns.length) {
-        ig.add(filePatterns);
-        added = true;
-
-        reporter.info(
-          `loaded ${filePatterns.length} ignore pattern(s) from ${filePath}`,
-        );
-        for (const pat of filePatterns) reporter.debug(`  ignore: ${pat}`);
-      }
-    } else {
+    if (fssync.existsSync(filePath))
+      push(await loadLayer(filePath, '', reporter));
+    else {
       if (options.ignoreFile.length === 0)
         reporter.error(`ignore file not found: ${filePath}`);
       else reporter.warn(`ignore file not found: ${filePath}`);
     }
   }
 
-  // 2) inline patterns
+  // 3) inline patterns (highest precedence)
   if (options.ignorePatterns.length) {
-    ig.add(options.ignorePatterns);
-    added = true;
+    layers.push({ base: '', ig: ignore().add(options.ignorePatterns) });
 
     reporter.info(
       `added ${options.ignorePatterns.length} inline ignore pattern(s)`,
@@ -62,21 +132,155 @@ function buildIgnoreMatcher(
       reporter.debug(`  ignore: ${pat}`);
   }
 
-  return added ? ig : null;
+  return layers;
 }
 
-async function scanDirRecursive(
-  params: {
-    rootAbs: string;
-    currentAbs: string;
-    currentRel: string; // relative path from root ('', 'src', 'src/x')
-    depthLeft: number; // -1 means unlimited
-    dirsOnly: boolean;
-    ig: Ig | null;
-  },
+// Ignore files found inside a (non-root) directory apply to its subtree.
+// `names` are the ones present among the directory's entries.
+async function nestedIgnoreLayers(
+  dirAbs: string,
+  dirRel: string,
+  names: readonly string[],
   reporter: ReturnType<typeof createReporter>,
+): Promise<IgnoreLayer[]> {
+  const layers: IgnoreLayer[] = [];
+  for (const name of names) {
+    const l = await loadLayer(path.join(dirAbs, name), dirRel, reporter);
+    if (l) layers.push(l);
+  }
+  return layers;
+}
+
+function isIgnored(stack: IgnoreStack, rel: string, isDir: boolean): boolean {
+  let ignored = false;
+  for (const layer of stack) {
+    const local = layer.base ? rel.slice(layer.base.length + 1) : rel;
+    // trailing slash lets directory-only patterns ("build/") match
+    const t = layer.ig.test(isDir ? `${local}/` : local);
+    if (t.ignored) ignored = true;
+    else if (t.unignored) ignored = false;
+  }
+  return ignored;
+}
+
+// Identity of a directory on disk, to spot symlink cycles
+function inodeKey(st: fssync.Stats): string {
+  return `${st.dev}:${st.ino}`;
+}
+
+function isInside(p: string, dir: string): boolean {
+  const rel = path.relative(dir, p);
+  return (
+    rel !== '..' && !rel.startsWith(`..${path.sep}`) && !path.isAbsolute(rel)
+  );
+}
+
+// What a followed symlink points at, or why it stays a link node
+async function followLink(
+  linkAbs: string,
+  symlinkRoot: string | null,
+  ancestors: ReadonlySet<string>,
+): Promise<fssync.Stats | NonNullable<LinkNode['reason']>> {
+  let st: fssync.Stats;
+  let real: string;
+  try {
+    st = await fs.stat(linkAbs);
+    real = await fs.realpath(linkAbs);
+  } catch {
+    return 'broken';
+  }
+  if (symlinkRoot && !isInside(real, symlinkRoot)) return 'outside';
+  if (st.isDirectory() && ancestors.has(inodeKey(st))) return 'cycle';
+  return st;
+}
+
+// fs calls in flight at once, over the whole tree
+const SCAN_CONCURRENCY = 32;
+// at most this often (ms) on the progress line
+const PROGRESS_INTERVAL = 250;
+
+type Pool = <T>(task: () => Promise<T>) => Promise<T>;
+
+// Runs at most `limit` tasks at a time; the rest wait in call order
+function createPool(limit: number): Pool {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+  return async (task) => {
+    if (active < limit) active++;
+    else await new Promise<void>((resolve) => waiting.push(resolve));
+    try {
+      return await task();
+    } finally {
+      // hand the slot straight to the next task, if any
+      const next = waiting.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
+
+// Settings and counters shared by the whole scan
+interface ScanContext {
+  rootAbs: string;
+  dirsOnly: boolean;
+  sizeBy: SizeMetric;
+  ignoreNames: readonly string[]; // per-directory ignore files to pick up
+  tracked: TrackedSet | null; // --git-tracked filter
+  history: Map<string, GitInfo> | null; // --color-by age|churn|author
+  classifier: Classifier | null; // --color-by language|category
+  symlinks: SymlinkMode;
+  symlinkRoot: string | null; // real path of the --symlink-root boundary
+  maxEntries: number | null;
+  cache: ScanCache | null; // --no-cache: null
+  ownDirs: ReadonlySet<string>; // lsphere's caches (absolute), never scanned
+  pool: Pool;
+  progress: ScanProgress;
+  reporter: ReturnType<typeof createReporter>;
+}
+
+interface ScanProgress {
+  entries: number;
+  reused: number; // taken from the scan cache without an lstat
+  startedAt: number;
+  reportedAt: number;
+}
+
+// One directory to scan
+interface DirTask {
+  currentAbs: string;
+  currentRel: string; // relative path from root ('', 'src', 'src/x')
+  stat: fssync.Stats; // of the directory (the target, for followed links)
+  depthLeft: number; // -1 means unlimited
+  stack: IgnoreStack; // ignore layers of all ancestors (root included)
+  ancestors: ReadonlySet<string>; // inodeKey of this dir and those above
+}
+
+function countEntry(ctx: ScanContext): void {
+  const p = ctx.progress;
+  p.entries++;
+  if (ctx.maxEntries !== null && p.entries > ctx.maxEntries)
+    throw new ScanError(
+      `more than ${ctx.maxEntries} entries (--max-entries); narrow the scan with --depth or --ignore`,
+    );
+  const now = Date.now();
+  if (now - p.reportedAt >= PROGRESS_INTERVAL) {
+    p.reportedAt = now;
+    ctx.reporter.progress(
+      `scanning: ${p.entries} entries (${entriesPerSecond(p, now)}/s)`,
+    );
+  }
+}
+
+function entriesPerSecond(p: ScanProgress, now: number): number {
+  return Math.round((p.entries * 1000) / Math.max(1, now - p.startedAt));
+}
+
+async function scanDirRecursive(
+  ctx: ScanContext,
+  task: DirTask,
 ): Promise<DirNode> {
-  const { rootAbs, currentAbs, currentRel, depthLeft, dirsOnly, ig } = params;
+  const { rootAbs, ignoreNames, tracked, pool, reporter } = ctx;
+  const { currentAbs, currentRel, depthLeft } = task;
 
   const dirNode: DirNode = {
     kind: 'dir',
@@ -84,6 +288,7 @@ async function scanDirRecursive(
       currentRel === '' ? path.basename(rootAbs) : path.basename(currentAbs),
     path: currentRel,
     children: [],
+    stats: dirStats([]),
   };
 
   // Depth 0 => do not descend or . & ..
@@ -91,89 +296,273 @@ async function scanDirRecursive(
     return dirNode;
   }
 
-  let entries: fssync.Dirent[];
-  try {
-    // Use sync op for Dirent because perf is fine and types are simpler
-    entries = fssync.readdirSync(currentAbs, { withFileTypes: true });
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  } catch (_) {
-    // unreadable dir — treat as empty
-    return dirNode;
+  let entries = ctx.cache?.listing(currentRel, task.stat);
+  // --size-by files|uniform need no file stats: the files (and shown links)
+  // of an unchanged directory come from the last scan
+  const reuse =
+    entries && (ctx.sizeBy === 'files' || ctx.sizeBy === 'uniform')
+      ? ctx.cache?.leaves(currentRel)
+      : undefined;
+  if (!entries) {
+    try {
+      entries = (
+        await pool(() => fs.readdir(currentAbs, { withFileTypes: true }))
+      ).map((d) => ({ name: d.name, dir: d.isDirectory() }));
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    } catch (_) {
+      // unreadable dir — treat as empty
+      return dirNode;
+    }
+    ctx.cache?.setListing(currentRel, task.stat, entries);
   }
 
   // Sort stable: dirs first, then files; alphabetically within groups
   entries.sort((a, b) => {
-    if (a.isDirectory() && !b.isDirectory()) return -1;
-    if (!a.isDirectory() && b.isDirectory()) return 1;
+    if (a.dir && !b.dir) return -1;
+    if (!a.dir && b.dir) return 1;
     return a.name.localeCompare(b.name);
   });
 
+  // nested ignore files extend the stack for this subtree
+  const stack =
+    currentRel === ''
+      ? task.stack
+      : [
+          ...task.stack,
+          ...(await pool(() =>
+            nestedIgnoreLayers(
+              currentAbs,
+              currentRel,
+              ignoreNames.filter((n) => entries.some((e) => e.name === n)),
+              reporter,
+            ),
+          )),
+        ];
+
   reporter.debug(`scanning: ${currentRel || '.'}`);
-  for (const ent of entries) {
-    const childAbs = path.join(currentAbs, ent.name);
+  const kept = entries.filter((ent) => {
     const childRel = currentRel ? `${currentRel}/${ent.name}` : ent.name;
 
     // ignore matcher uses POSIX-style rel paths
-    if (ig && ig.ignores(childRel)) {
-      reporter.debug(`  skipped by ignore: ${childRel}`);
-      continue;
+    if (ctx.ownDirs.has(path.join(currentAbs, ent.name))) {
+      reporter.debug(`  skipped lsphere cache: ${childRel}`);
+      return false;
     }
 
-    // lstat to avoid following symlink directories (prevent cycles)
-    let lst: fssync.Stats;
-    try {
-      lst = fssync.lstatSync(childAbs);
-    } catch {
-      continue; // race/unreadable entry
+    if (isIgnored(stack, childRel, ent.dir)) {
+      reporter.debug(`  skipped by ignore: ${childRel}`);
+      return false;
     }
 
-    if (lst.isSymbolicLink()) {
-      reporter.warn(`  skipped symlink: ${childRel}`);
-      continue;
+    if (tracked && !(ent.dir ? tracked.dirs : tracked.files).has(childRel)) {
+      reporter.debug(`  skipped untracked: ${childRel}`);
+      return false;
     }
+    return true;
+  });
 
-    if (lst.isDirectory()) {
-      const child = await scanDirRecursive(
-        {
-          rootAbs,
-          currentAbs: childAbs,
-          currentRel: childRel,
-          depthLeft: depthLeft < 0 ? -1 : depthLeft - 1,
-          dirsOnly,
-          ig,
-        },
-        reporter,
-      );
-      dirNode.children.push(child);
-      reporter.debug(`  dir: ${childRel}/`);
-    } else if (!dirsOnly && lst.isFile()) {
-      const fnode: FileNode = {
-        kind: 'file',
-        name: ent.name,
-        path: childRel,
-        size: lst.size,
-        ext: extOf(ent.name),
-      };
-      dirNode.children.push(fnode);
-      reporter.debug(`  file: ${childRel} (${lst.size} bytes)`);
-    } else {
-      // ignore other types (fifo, socket, device)
-      continue;
-    }
+  // siblings (and their subtrees) are scanned concurrently; results keep the
+  // sorted entry order
+  const children = await Promise.all(
+    kept.map((ent) => {
+      const cached = reuse && reusedEntry(ctx, task, ent, reuse);
+      return cached !== undefined
+        ? cached
+        : scanEntry(ctx, { ...task, stack }, ent);
+    }),
+  );
+  for (const child of children) if (child) dirNode.children.push(child);
+
+  if (ctx.cache) {
+    const leaves: DirLeaves = { files: new Map(), links: new Map() };
+    for (const c of dirNode.children)
+      if (c.kind === 'file' && c.linkTarget === undefined)
+        leaves.files.set(c.name, c.size);
+      else if (c.kind === 'link' && ctx.symlinks === 'show')
+        leaves.links.set(c.name, c.target);
+    ctx.cache.setLeaves(currentRel, leaves);
   }
 
+  dirNode.stats = dirStats(dirNode.children);
   return dirNode;
 }
 
+// An entry of an unchanged directory as the last scan found it, without an
+// lstat; undefined when the cache does not have it
+function reusedEntry(
+  ctx: ScanContext,
+  parent: DirTask,
+  ent: DirEntry,
+  leaves: DirLeaves,
+): FileNode | LinkNode | null | undefined {
+  if (ent.dir) return undefined;
+  const childRel = parent.currentRel
+    ? `${parent.currentRel}/${ent.name}`
+    : ent.name;
+  const size = leaves.files.get(ent.name);
+  const target =
+    ctx.symlinks === 'show' ? leaves.links.get(ent.name) : undefined;
+
+  let node: FileNode | LinkNode | null;
+  if (size !== undefined)
+    node = ctx.dirsOnly
+      ? null
+      : annotateFile(ctx, {
+          kind: 'file',
+          name: ent.name,
+          path: childRel,
+          size,
+          ext: extOf(ent.name),
+        });
+  else if (target !== undefined)
+    node = { kind: 'link', name: ent.name, path: childRel, target };
+  else return undefined;
+  countEntry(ctx);
+  ctx.progress.reused++;
+  return node;
+}
+
+// History and language/category: looked up in memory, never cached
+function annotateFile(ctx: ScanContext, fnode: FileNode): FileNode {
+  const git = ctx.history?.get(fnode.path);
+  if (git) fnode.git = { ...git };
+  if (ctx.classifier) Object.assign(fnode, ctx.classifier.classify(fnode));
+  return fnode;
+}
+
+// One directory entry; null when it is left out
+async function scanEntry(
+  ctx: ScanContext,
+  parent: DirTask,
+  ent: DirEntry,
+): Promise<DirNode | FileNode | LinkNode | null> {
+  const { dirsOnly, sizeBy, symlinks, pool, reporter } = ctx;
+  const { currentAbs, currentRel, depthLeft, ancestors } = parent;
+  const childAbs = path.join(currentAbs, ent.name);
+  const childRel = currentRel ? `${currentRel}/${ent.name}` : ent.name;
+  countEntry(ctx);
+
+  // lstat to avoid following symlink directories (prevent cycles)
+  let lst: fssync.Stats;
+  try {
+    lst = await pool(() => fs.lstat(childAbs));
+  } catch {
+    return null; // race/unreadable entry
+  }
+
+  // --symlinks follow: scan the target in place of the link (below)
+  let linkTarget: string | undefined;
+  if (lst.isSymbolicLink()) {
+    if (symlinks === 'skip') {
+      reporter.debug(`  skipped symlink: ${childRel}`);
+      return null;
+    }
+    const link: LinkNode = {
+      kind: 'link',
+      name: ent.name,
+      path: childRel,
+      target: await pool(() => fs.readlink(childAbs)),
+    };
+    const followed =
+      symlinks === 'follow'
+        ? await pool(() => followLink(childAbs, ctx.symlinkRoot, ancestors))
+        : null;
+    if (followed === null || typeof followed === 'string') {
+      if (followed) link.reason = followed;
+      if (followed === 'cycle')
+        reporter.warn(`  symlink cycle: ${childRel} -> ${link.target}`);
+      else if (followed)
+        reporter.info(`  not followed (${followed}): ${childRel}`);
+      reporter.debug(`  link: ${childRel} -> ${link.target}`);
+      return link;
+    }
+    lst = followed;
+    linkTarget = link.target;
+  }
+
+  if (lst.isDirectory()) {
+    const child = await scanDirRecursive(ctx, {
+      currentAbs: childAbs,
+      currentRel: childRel,
+      stat: lst,
+      depthLeft: depthLeft < 0 ? -1 : depthLeft - 1,
+      stack: parent.stack,
+      ancestors: new Set(ancestors).add(inodeKey(lst)),
+    });
+    if (linkTarget !== undefined) child.linkTarget = linkTarget;
+    reporter.debug(`  dir: ${childRel}/`);
+    return child;
+  }
+  if (dirsOnly || !lst.isFile()) {
+    // ignore other types (fifo, socket, device)
+    return null;
+  }
+
+  const fnode: FileNode = {
+    kind: 'file',
+    name: ent.name,
+    path: childRel,
+    size: lst.size,
+    ext: extOf(ent.name),
+  };
+  if (linkTarget !== undefined) fnode.linkTarget = linkTarget;
+  if (sizeBy === 'lines') {
+    fnode.lines =
+      ctx.cache?.lines(childRel, lst) ??
+      (await pool(() => countLines(childAbs)));
+    ctx.cache?.setLines(childRel, lst, fnode.lines);
+  }
+  reporter.debug(`  file: ${childRel} (${lst.size} bytes)`);
+  return annotateFile(ctx, fnode);
+}
+
 /**
  * Scan a directory according to options.
  * - Honors depth, dirsOnly, ignoreFile + inline ignores.
- * - Skips symlinks to avoid cycles.
+ * - Ignore files named like the root one (e.g. .lsignore) in subdirectories
+ *   apply to their subtree; --gitignore adds .gitignore files the same way.
+ * - --git-tracked keeps only files the local git binary reports as tracked.
+ * - Git-based color modes attach last commit / author / churn to files.
+ * - Counts lines per file only when sizing by lines (it reads every file).
+ * - Every directory carries totals of its subtree (bytes, files, …).
+ * - Symlinks per --symlinks: skipped, drawn as link nodes, or followed. A
+ *   followed link is scanned like the entry it points at; links into a
+ *   directory above it (cycles), broken links and links leaving
+ *   --symlink-root are drawn as link nodes instead.
+ * - Reads with fs.promises, at most SCAN_CONCURRENCY calls at a time; the
+ *   tree keeps the sorted order either way. Reports progress while scanning
+ *   and stops with an error past --max-entries.
+ * - Reuses directory listings and line counts of the previous scan from the
+ *   scan cache while their stats match, and with --size-by files|uniform the
+ *   files of unchanged directories without stat'ing them (see ScanCache).
  */
 export async function scanDirectory(
   options: Options,
   reporter: ReturnType<typeof createReporter>,
 ): Promise<DirectoryTree> {
+  return (await createScanner(options, reporter)).scan();
+}
+
+// A scan that can be repeated for parts of the tree (--watch)
+export interface Scanner {
+  scan: () => Promise<DirectoryTree>; // full scan, see scanDirectory
+  // false for paths a scan leaves out: ignored by the root ignore matcher
+  // (or under an ignored directory), or below --depth
+  affects: (rel: string) => boolean;
+  // rescan the changed entries (files or whole subtrees, POSIX paths relative
+  // to the root) and return the updated tree
+  rescan: (tree: DirNode, changed: readonly string[]) => Promise<DirNode>;
+}
+
+/**
+ * Set up a scan: checks the root, loads ignore files and git data once.
+ * Rescans reuse all of it (git data may get stale), re-read nested ignore
+ * files along the way and skip the scan cache, which keeps full scans only.
+ */
+export async function createScanner(
+  options: Options,
+  reporter: ReturnType<typeof createReporter>,
+): Promise<Scanner> {
   const rootInput =
     options.targetPath && options.targetPath.trim().length > 0
       ? options.targetPath
@@ -184,30 +573,255 @@ export async function scanDirectory(
   // Validate that rootAbs is a directory
   let stat: fssync.Stats;
   try {
-    stat = fssync.statSync(rootAbs);
+    stat = await fs.stat(rootAbs);
   } catch {
-    throw new Error(`Path not found: ${rootInput}`);
+    throw new ScanError(`Path not found: ${rootInput}`);
   }
   if (!stat.isDirectory()) {
-    throw new Error(`Not a directory: ${rootInput}`);
+    throw new ScanError(`Not a directory: ${rootInput}`);
   }
 
-  const depthLeft = options.depth;
-  const ig = buildIgnoreMatcher(rootAbs, options, reporter);
+  const stack = await buildIgnoreMatcher(rootAbs, options, reporter);
+  const tracked = options.gitTracked ? loadTrackedSet(rootAbs) : null;
+  if (tracked) reporter.info(`git tracks ${tracked.files.size} file(s)`);
+  let history: Map<string, GitInfo> | null = null;
+  if (GIT_COLOR_MODES.includes(options.colorBy)) {
+    // outside a repo every file is "(no history)", like untracked files
+    if (isGitWorkTree(rootAbs)) history = readGitHistory(rootAbs);
+    else {
+      reporter.warn(
+        `--color-by ${options.colorBy}: ${rootAbs} is not in a git repository, no file has history`,
+      );
+      history = new Map();
+    }
+    reporter.info(`git history covers ${history.size} path(s)`);
+  }
 
-  reporter.info(`scanning root: ${rootAbs}`);
-  const tree = await scanDirRecursive(
-    {
-      rootAbs,
-      currentAbs: rootAbs,
-      currentRel: '',
-      depthLeft,
-      dirsOnly: options.dirsOnly,
-      ig,
-    },
+  const symlinkRoot = options.symlinkRoot
+    ? await realpathOr(path.resolve(options.symlinkRoot))
+    : null;
+
+  const ctx: ScanContext = {
+    rootAbs,
+    dirsOnly: options.dirsOnly,
+    sizeBy: options.sizeBy,
+    ignoreNames: nestedIgnoreNames(options),
+    tracked,
+    history,
+    classifier:
+      options.colorBy === 'language' || options.colorBy === 'category'
+        ? createClassifier(options.languages, options.categories)
+        : null,
+    symlinks: options.symlinks,
+    symlinkRoot,
+    maxEntries: options.maxEntries,
+    cache: null,
+    // the scan and template caches, wherever they are
+    ownDirs: new Set(
+      [
+        options.cacheDir,
+        ...(options.htmlTemplate.kind === 'remote'
+          ? [options.htmlTemplate.cacheDir]
+          : []),
+      ].map((d) => path.resolve(d)),
+    ),
+    pool: createPool(SCAN_CONCURRENCY),
+    progress: { entries: 0, reused: 0, startedAt: 0, reportedAt: 0 },
     reporter,
-  );
-  reporter.success(`scan complete: ${tree.children.length} top-level entries`);
+  };
+  const depth = options.depth;
+
+  // counters + progress line per (re)scan
+  async function run<T>(scan: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    ctx.progress = { entries: 0, reused: 0, startedAt: now, reportedAt: now };
+    try {
+      return await scan();
+    } catch (err: unknown) {
+      throw err instanceof LsphereError
+        ? err
+        : new ScanError(errorMessage(err));
+    } finally {
+      reporter.progress(null);
+    }
+  }
 
-  return tree;
+  // The task scanDirRecursive would get for the directory at `rel` (whose
+  // own nested ignore files are not part of `stack` yet)
+  async function taskFor(rel: string): Promise<DirTask> {
+    const names = rel ? rel.split('/') : [];
+    let taskStack = stack;
+    const ancestors = new Set([inodeKey(stat)]);
+    let dirStat = stat;
+    for (let i = 1; i <= names.length; i++) {
+      const prefix = names.slice(0, i).join('/');
+      const abs = path.join(rootAbs, prefix);
+      if (i > 1) {
+        const parent = names.slice(0, i - 1).join('/');
+        taskStack = [
+          ...taskStack,
+          ...(await nestedIgnoreLayers(
+            path.join(rootAbs, parent),
+            parent,
+            ctx.ignoreNames,
+            reporter,
+          )),
+        ];
+      }
+      dirStat = await fs.stat(abs);
+      ancestors.add(inodeKey(dirStat));
+    }
+    return {
+      currentAbs: path.join(rootAbs, rel),
+      currentRel: rel,
+      stat: dirStat,
+      depthLeft: depth < 0 ? -1 : Math.max(0, depth - names.length),
+      stack: taskStack,
+      ancestors,
+    };
+  }
+
+  // The entry at `rel` as a full scan would have it; null when it is gone or
+  // left out
+  async function scanOne(
+    rel: string,
+  ): Promise<DirNode | FileNode | LinkNode | null> {
+    const parentRel = parentOf(rel);
+    const parent = await taskFor(parentRel);
+    const entryStack =
+      parentRel === ''
+        ? parent.stack
+        : [
+            ...parent.stack,
+            ...(await nestedIgnoreLayers(
+              parent.currentAbs,
+              parentRel,
+              ctx.ignoreNames,
+              reporter,
+            )),
+          ];
+    let lst: fssync.Stats;
+    try {
+      lst = await fs.lstat(path.join(rootAbs, rel));
+    } catch {
+      return null; // removed
+    }
+    const dir = lst.isDirectory();
+    if (ctx.ownDirs.has(path.join(rootAbs, rel))) return null;
+    if (isIgnored(entryStack, rel, dir)) return null;
+    if (tracked && !(dir ? tracked.dirs : tracked.files).has(rel)) return null;
+    return scanEntry(
+      ctx,
+      { ...parent, stack: entryStack },
+      { name: path.posix.basename(rel), dir },
+    );
+  }
+
+  return {
+    async scan() {
+      reporter.info(`scanning root: ${rootAbs}`);
+      ctx.cache = options.cache
+        ? await loadScanCache(options.cacheDir, rootAbs, reporter)
+        : null;
+      const tree = await run(async () =>
+        scanDirRecursive(ctx, await taskFor('')),
+      );
+      const { entries } = ctx.progress;
+      reporter.success(
+        `scan complete: ${tree.children.length} top-level entries, ${entries} in total (${entriesPerSecond(ctx.progress, Date.now())}/s)`,
+      );
+      if (ctx.cache) {
+        const { reused } = ctx.progress;
+        reporter.info(
+          `scan cache: ${ctx.cache.summary()}${reused ? `, ${reused} entries not stat'ed` : ''}`,
+        );
+        await ctx.cache.save();
+        ctx.cache = null;
+      }
+      return tree;
+    },
+
+    affects(rel) {
+      if (!rel) return true;
+      const names = rel.split('/');
+      if (depth >= 0 && names.length > depth) return false;
+      for (let i = 1; i < names.length; i++)
+        if (isIgnored(stack, names.slice(0, i).join('/'), true)) return false;
+      return !isIgnored(stack, rel, false) && !isIgnored(stack, rel, true);
+    },
+
+    async rescan(tree, changed) {
+      // an unknown path ('') or the root itself: everything
+      if (changed.includes(''))
+        return run(async () => scanDirRecursive(ctx, await taskFor('')));
+      // entries inside another changed entry come along with it
+      const roots = [...new Set(changed)]
+        .sort()
+        .filter((rel, i, all) =>
+          all.slice(0, i).every((p) => !rel.startsWith(`${p}/`)),
+        );
+      return run(async () => {
+        let next = tree;
+        for (let rel of roots) {
+          // inside a new or removed directory: that directory changed
+          while (rel.includes('/') && !findDir(next, parentOf(rel)))
+            rel = parentOf(rel);
+          next = putEntry(next, rel, await scanOne(rel));
+        }
+        return next;
+      });
+    },
+  };
+}
+
+function parentOf(rel: string): string {
+  const i = rel.lastIndexOf('/');
+  return i < 0 ? '' : rel.slice(0, i);
+}
+
+// The directory node at `rel`, if the tree has one
+function findDir(tree: DirNode, rel: string): DirNode | undefined {
+  let dir: DirNode | undefined = tree;
+  for (const name of rel ? rel.split('/') : [])
+    dir = dir?.children.find(
+      (c): c is DirNode => c.kind === 'dir' && c.name === name,
+    );
+  return dir;
+}
+
+// Put `node` at `rel` (null removes the entry) in the scanner's order and
+// update the totals on the way up
+function putEntry(
+  dir: DirNode,
+  rel: string,
+  node: DirNode | FileNode | LinkNode | null,
+): DirNode {
+  const parent = parentOf(rel);
+  let children: DirNode['children'];
+  if (parent === dir.path) {
+    const name = rel.slice(parent ? parent.length + 1 : 0);
+    children = dir.children.filter((c) => c.name !== name);
+    if (node) children = [...children, node].sort(scanOrder);
+  } else
+    children = dir.children.map((c) =>
+      c.kind === 'dir' && (parent === c.path || parent.startsWith(`${c.path}/`))
+        ? putEntry(c, rel, node)
+        : c,
+    );
+  return { ...dir, children, stats: dirStats(children) };
+}
+
+// Same order as the sorted directory entries: real directories first
+export function scanOrder(a: TreeNode, b: TreeNode): number {
+  const rank = (n: TreeNode) => (n.kind === 'dir' && !n.linkTarget ? 0 : 1);
+  return rank(a) - rank(b) || a.name.localeCompare(b.name);
+}
+
+// Real path when it exists (links compare by real path), else as given
+async function realpathOr(p: string): Promise<string> {
+  try {
+    return await fs.realpath(p);
+  } catch {
+    return p;
+  }
 }
@@ -0,0 +1,143 @@
+import { createServer, type ServerResponse } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import type { AddressInfo } from 'node:net';
+import * as path from 'node:path';
+import { IoError } from './errors';
+import type { Snapshot } from './model';
+import type { Reporter } from './reporter';
+
+const MIME: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+};
+
+// Added to every served page: reload when a new snapshot is published
+const LIVE_RELOAD =
+  "<script>new EventSource('/events').addEventListener('reload', () => location.reload());</script>";
+
+export interface PreviewServer {
+  url: string;
+  // a new snapshot was written: serve it and reload open pages
+  publish: (snapshot: Snapshot) => void;
+  close: () => Promise<void>;
+}
+
+/**
+ * Serve the output directory on localhost (--serve), so the viewer can
+ * fetch its JSON (file:// pages cannot):
+ *  - /              circle.html; other paths are files in `outDir`
+ *  - /api/snapshot  the last published snapshot
+ *  - /events        server-sent events: "reload" after every publish
+ * HTML pages get a small script that reloads them on "reload".
+ */
+export async function startPreviewServer(
+  outDir: string,
+  port: number,
+  reporter: Reporter,
+): Promise<PreviewServer> {
+  const root = path.resolve(outDir);
+  const clients = new Set<ServerResponse>();
+  let snapshotJson: string | null = null;
+
+  const server = createServer(async (req, res) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD')
+      return send(res, 405, 'text/plain; charset=utf-8', 'method not allowed');
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(
+        new URL(req.url ?? '/', 'http://localhost').pathname,
+      );
+    } catch {
+      return send(res, 400, 'text/plain; charset=utf-8', 'bad request');
+    }
+
+    if (pathname === '/events') {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-store',
+        Connection: 'keep-alive',
+      });
+      res.write(': connected\n\n');
+      clients.add(res);
+      req.on('close', () => clients.delete(res));
+      return;
+    }
+
+    if (pathname === '/api/snapshot')
+      return snapshotJson === null
+        ? send(res, 404, MIME['.json'], '{"error":"no snapshot yet"}')
+        : send(res, 200, MIME['.json'], snapshotJson);
+
+    // files of the output directory, never outside it
+    const file = path.resolve(
+      root,
+      pathname === '/' ? 'circle.html' : `.${pathname}`,
+    );
+    if (file !== root && !file.startsWith(`${root}${path.sep}`))
+      return send(res, 403, 'text/plain; charset=utf-8', 'forbidden');
+    try {
+      if (!(await stat(file)).isFile()) throw new Error('not a file');
+      const ext = path.extname(file).toLowerCase();
+      let body: Buffer | string = await readFile(file);
+      if (ext === '.html') body = withLiveReload(body.toString('utf8'));
+      send(res, 200, MIME[ext] ?? 'application/octet-stream', body);
+    } catch {
+      send(res, 404, 'text/plain; charset=utf-8', `not found: ${pathname}`);
+    }
+    reporter.debug(`serve: ${req.method} ${pathname} → ${res.statusCode}`);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', (err: NodeJS.ErrnoException) =>
+      reject(
+        new IoError(
+          err.code === 'EADDRINUSE'
+            ? `--serve: port ${port} is already in use (try --serve <port>)`
+            : `--serve: ${err.message}`,
+        ),
+      ),
+    );
+    server.listen(port, '127.0.0.1', resolve);
+  });
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+
+  return {
+    url,
+    publish(snapshot) {
+      snapshotJson = JSON.stringify(snapshot);
+      for (const c of clients) c.write('event: reload\ndata: {}\n\n');
+      if (clients.size)
+        reporter.debug(`serve: reloading ${clients.size} page(s)`);
+    },
+    close() {
+      for (const c of clients) c.end();
+      clients.clear();
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+function send(
+  res: ServerResponse,
+  status: number,
+  type: string,
+  body: Buffer | string,
+): void {
+  res.writeHead(status, {
+    'Content-Type': type,
+    'Cache-Control': 'no-store',
+    'Content-Length': Buffer.byteLength(body),
+  });
+  res.end(res.req.method === 'HEAD' ? undefined : body);
+}
+
+function withLiveReload(html: string): string {
+  const at = html.lastIndexOf('</body>');
+  return at < 0
+    ? html + LIVE_RELOAD
+    : html.slice(0, at) + LIVE_RELOAD + html.slice(at);
+}
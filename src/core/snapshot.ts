@@ -0,0 +1,157 @@
+import { readFileSync } from 'fs';
+import { resolve as resolvePath } from 'path';
+import { errorMessage, IoError } from './errors';
+import type { DirectoryTree, Snapshot } from './model';
+import type { Options } from './options';
+import { withDirStats } from './stats';
+
+// Snapshot format version written to meta.version. Readers accept the same
+// major version; bump the major on incompatible layout changes.
+export const SNAPSHOT_VERSION = '0.3.0';
+
+// Wrap a scanned tree with the metadata header written to circle.json
+export function createSnapshot(
+  tree: DirectoryTree,
+  options: Options,
+): Snapshot {
+  return {
+    meta: {
+      tool: 'lsphere',
+      version: SNAPSHOT_VERSION,
+      generatedAt: new Date().toISOString(),
+      root: resolvePath(options.targetPath),
+      options: {
+        depth: options.depth,
+        dirsOnly: options.dirsOnly,
+        noDirs: options.noDirs,
+        symlinks: options.symlinks,
+        maxChildren: options.maxChildren,
+        minRadius: options.minRadius,
+        theme: options.theme.name,
+        bgColor: options.bgColor,
+        palette: options.palette.name,
+        contrast: options.contrast,
+        canvas: { ...options.canvas },
+        sizeBy: options.sizeBy,
+        scale: options.scale,
+        weightRange: [options.minWeight, options.maxWeight],
+        colorBy: options.colorBy,
+      },
+    },
+    tree,
+  };
+}
+
+/**
+ * Read and validate a snapshot written by --json (circle.json).
+ * Throws with the offending JSON path on malformed input; `warn` receives
+ * non-fatal findings (e.g. a newer minor version).
+ */
+export function readSnapshot(
+  file: string,
+  warn?: (msg: string) => void,
+): Snapshot {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (err: unknown) {
+    throw new IoError(`cannot read snapshot ${file} (${errorMessage(err)})`);
+  }
+  try {
+    validateSnapshot(data, warn);
+  } catch (err: unknown) {
+    throw new IoError(`invalid snapshot ${file}: ${errorMessage(err)}`);
+  }
+  // stats are derived data: recompute them, so snapshots written before they
+  // existed (or edited by hand) stay consistent
+  return { ...data, tree: withDirStats(data.tree) };
+}
+
+export function validateSnapshot(
+  data: unknown,
+  warn?: (msg: string) => void,
+): asserts data is Snapshot {
+  const s = expectObject(data, '$');
+  const meta = expectObject(s.meta, 'meta');
+  if (meta.tool !== 'lsphere') throw new Error('meta.tool: expected "lsphere"');
+  expectString(meta.generatedAt, 'meta.generatedAt');
+  expectString(meta.root, 'meta.root');
+  expectObject(meta.options, 'meta.options');
+
+  const version = parseVersion(expectString(meta.version, 'meta.version'));
+  const ours = parseVersion(SNAPSHOT_VERSION) as [number, number, number];
+  if (!version) throw new Error(`meta.version: not a version: ${meta.version}`);
+  if (version[0] !== ours[0])
+    throw new Error(
+      `meta.version: ${meta.version} is not compatible with ${SNAPSHOT_VERSION}`,
+    );
+  if (version[1] > ours[1])
+    warn?.(
+      `snapshot version ${meta.version} is newer than ${SNAPSHOT_VERSION}; unknown fields are ignored`,
+    );
+
+  const tree = expectObject(s.tree, 'tree');
+  if (tree.kind !== 'dir') throw new Error('tree.kind: expected "dir"');
+  validateNode(tree, 'tree');
+}
+
+// ---------- helpers ----------
+
+type Json = Record<string, unknown>;
+
+function validateNode(n: Json, at: string): void {
+  expectString(n.name, `${at}.name`);
+  expectString(n.path, `${at}.path`);
+  if (n.kind === 'file') {
+    if (typeof n.size !== 'number' || !(n.size >= 0))
+      throw new Error(`${at}.size: expected a non-negative number`);
+    expectString(n.ext, `${at}.ext`);
+    if (n.lines !== undefined && typeof n.lines !== 'number')
+      throw new Error(`${at}.lines: expected a number`);
+  } else if (n.kind === 'other') {
+    if (typeof n.size !== 'number' || typeof n.count !== 'number')
+      throw new Error(`${at}: expected numeric size and count`);
+    if (!Array.isArray(n.children))
+      throw new Error(`${at}.children: expected an array`);
+    n.children.forEach((c, i) => {
+      const child = expectObject(c, `${at}.children[${i}]`);
+      if (child.kind !== 'file')
+        throw new Error(`${at}.children[${i}].kind: expected "file"`);
+      validateNode(child, `${at}.children[${i}]`);
+    });
+  } else if (n.kind === 'link') {
+    expectString(n.target, `${at}.target`);
+    if (
+      n.reason !== undefined &&
+      !['broken', 'cycle', 'outside'].includes(n.reason as string)
+    )
+      throw new Error(`${at}.reason: expected "broken", "cycle" or "outside"`);
+  } else if (n.kind === 'dir') {
+    if (!Array.isArray(n.children))
+      throw new Error(`${at}.children: expected an array`);
+    n.children.forEach((c, i) =>
+      validateNode(
+        expectObject(c, `${at}.children[${i}]`),
+        `${at}.children[${i}]`,
+      ),
+    );
+  } else {
+    throw new Error(`${at}.kind: expected "file", "dir", "other" or "link"`);
+  }
+}
+
+function expectObject(v: unknown, at: string): Json {
+  if (typeof v !== 'object' || v === null || Array.isArray(v))
+    throw new Error(`${at}: expected an object`);
+  return v as Json;
+}
+
+function expectString(v: unknown, at: string): string {
+  if (typeof v !== 'string') throw new Error(`${at}: expected a string`);
+  return v;
+}
+
+function parseVersion(v: string): [number, number, number] | null {
+  const m = /^(\d+)\.(\d+)\.(\d+)/.exec(v);
+  return m ? [Number(m[1]), Number(m[2]), Number(m[3])] : null;
+}
@@ -0,0 +1,56 @@
+import { formatBytes } from './metrics';
+import type { DirNode, DirStats, TreeNode } from './model';
+
+/**
+ * Aggregates of a directory from its direct children; child directories must
+ * already carry their own stats (the scanner builds them bottom-up).
+ */
+export function dirStats(children: readonly TreeNode[]): DirStats {
+  const stats: DirStats = {
+    bytes: 0,
+    files: 0,
+    dirs: 0,
+    maxDepth: children.length ? 1 : 0,
+    byExt: {},
+  };
+  for (const c of children) {
+    if (c.kind === 'link') continue; // no bytes of its own
+    if (c.kind !== 'dir') {
+      // merged files ("+N more") count like their originals
+      for (const f of c.kind === 'other' ? c.children : [c]) {
+        stats.bytes += f.size;
+        stats.files++;
+        addExt(stats, f.ext, f.size, 1);
+      }
+    } else {
+      const s = c.stats;
+      stats.bytes += s.bytes;
+      stats.files += s.files;
+      stats.dirs += 1 + s.dirs;
+      stats.maxDepth = Math.max(stats.maxDepth, 1 + s.maxDepth);
+      for (const [ext, e] of Object.entries(s.byExt))
+        addExt(stats, ext, e.bytes, e.files);
+    }
+  }
+  return stats;
+}
+
+/** Recompute stats for a whole tree (e.g. read from an older snapshot). */
+export function withDirStats(dir: DirNode): DirNode {
+  const children = dir.children.map((c) =>
+    c.kind === 'dir' ? withDirStats(c) : c,
+  );
+  return { ...dir, children, stats: dirStats(children) };
+}
+
+/** Short summary for labels, e.g. "1.2 MB, 340 files". */
+export function formatDirStats(stats: DirStats): string {
+  const files = `${stats.files} file${stats.files === 1 ? '' : 's'}`;
+  return `${formatBytes(stats.bytes)}, ${files}`;
+}
+
+function addExt(stats: DirStats, ext: string, bytes: number, files: number) {
+  const e = (stats.byExt[ext] ??= { bytes: 0, files: 0 });
+  e.bytes += bytes;
+  e.files += files;
+}
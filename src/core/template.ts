@@ -1,11 +1,22 @@
 #!/usr/bin/env node
 import { mkdirSync, writeFileSync, readFileSync, existsSync } from 'fs';
-import { join } from 'path';
+import { dirname, extname, join, resolve as resolvePath } from 'path';
 import { createHash } from 'crypto';
 import got from 'got';
 import { createReporter } from './reporter';
-import { type HtmlTemplate } from './options';
+import { errorMessage, IoError, UsageError } from './errors';
+import {
+  type HtmlTemplate,
+  type HtmlTemplateLocal,
+  type HtmlTemplateRemote,
+} from './options';
 
+// Built-in interactive viewer. Placeholders:
+//   {{BG}}        background color
+//   {{JSON_PATH}} snapshot to fetch (relative to the HTML file)
+//   {{VIEW}}      viewer model (weights, fills, legend, gradient, theme, dir labels) as script-safe JSON
+//   {{SNAPSHOT}}  inlined snapshot as script-safe JSON, or null (fetch instead)
+// Kept free of backticks and `${` since it lives inside a template literal.
 const DEFAULT_HTML: string = String.raw`<!doctype html>
 <html>
 <head>
@@ -13,28 +24,321 @@ const DEFAULT_HTML: string = String.raw`<!doctype html>
 <meta name="viewport" content="width=device-width,initial-scale=1" />
 <title>lsphere</title>
 <style>
-  body { margin: 0; background: {{BG}}; color: #222; font: 14px/1.4 system-ui, -apple-system, Segoe UI, Roboto, sans-serif; }
-  .wrap { padding: 16px; }
-  code { background: rgba(0,0,0,.05); padding: 2px 4px; border-radius: 4px; }
+  * { box-sizing: border-box; }
+  html, body { height: 100%; }
+  body { margin: 0; background: {{BG}}; color: var(--text, #222); font: 14px/1.4 system-ui, -apple-system, Segoe UI, Roboto, sans-serif; display: flex; flex-direction: column; }
+  header { padding: 12px 16px 8px; }
+  header h1 { margin: 0 0 4px; font-size: 16px; font-weight: 600; word-break: break-all; }
+  nav.crumbs { font-size: 13px; }
+  nav.crumbs button { border: 0; background: none; padding: 0; color: var(--link, #1a5fb4); cursor: pointer; font: inherit; }
+  nav.crumbs button:hover { text-decoration: underline; }
+  nav.crumbs button[disabled] { color: inherit; cursor: default; text-decoration: none; font-weight: 600; }
+  nav.crumbs .sep { color: var(--muted, #999); margin: 0 4px; }
+  main { flex: 1; display: flex; min-height: 0; }
+  #stage { flex: 1; min-width: 0; position: relative; }
+  #stage svg { display: block; width: 100%; height: 100%; cursor: zoom-out; }
+  #stage circle.dir { cursor: zoom-in; }
+  #stage circle.other { cursor: pointer; }
+  #stage text { pointer-events: none; font-family: sans-serif; }
+  aside.legend { width: 180px; padding: 8px 16px; overflow: auto; font-size: 12px; }
+  aside.legend ul { list-style: none; margin: 0; padding: 0; }
+  aside.legend li { display: flex; align-items: center; gap: 8px; margin: 2px 0; }
+  aside.legend .sw { width: 12px; height: 12px; border-radius: 50%; flex: none; }
+  aside.legend .ramp { margin: 0 0 12px; }
+  aside.legend .ramp .bar { height: 10px; margin: 4px 0 2px; }
+  aside.legend .ramp .ends { display: flex; justify-content: space-between; font-size: 10px; }
+  #tooltip { position: fixed; pointer-events: none; background: rgba(20,20,20,.92); color: #fff; padding: 6px 8px; border-radius: 4px; font-size: 12px; max-width: 420px; word-break: break-all; display: none; z-index: 10; }
+  #tooltip .k { color: #aaa; }
+  #error { padding: 16px; color: #b00020; white-space: pre-wrap; }
 </style>
 </head>
 <body>
-  <div class="wrap">
-    <h1>lsphere</h1>
-    <p>Template: <code>default</code> — Palette: <code>{{PALETTE}}</code></p>
-    <p>Loading data from <code>{{JSON_PATH}}</code>…</p>
-    <pre id="out">(waiting)</pre>
-  </div>
+  <header>
+    <h1 id="title">lsphere</h1>
+    <nav class="crumbs" id="crumbs"></nav>
+  </header>
+  <main>
+    <div id="stage"></div>
+    <aside class="legend"><div id="ramp"></div><ul id="legend"></ul></aside>
+  </main>
+  <div id="tooltip"></div>
   <script type="module">
-    (async () => {
-      try {
-        const res = await fetch('{{JSON_PATH}}', { cache: 'no-store' });
-        const data = await res.json();
-        document.getElementById('out').textContent = JSON.stringify(data, null, 2);
-      } catch (err) {
-        document.getElementById('out').textContent = 'Failed to load JSON: ' + err;
+    import * as d3 from 'https://cdn.jsdelivr.net/npm/d3@7/+esm';
+
+    const VIEW = {{VIEW}};
+    const JSON_PATH = '{{JSON_PATH}}';
+    const INLINE_SNAPSHOT = {{SNAPSHOT}};
+    const THEME = VIEW.theme;
+
+    for (const key of ['text', 'muted', 'link'])
+      document.body.style.setProperty('--' + key, THEME[key]);
+
+    const stage = document.getElementById('stage');
+    const tooltip = document.getElementById('tooltip');
+    const crumbs = document.getElementById('crumbs');
+
+    function formatBytes(n) {
+      const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+      let i = 0;
+      while (n >= 1024 && i < units.length - 1) { n /= 1024; i++; }
+      return (i === 0 ? String(n) : n.toFixed(1)) + ' ' + units[i];
+    }
+
+    function legend(entries) {
+      const ul = document.getElementById('legend');
+      for (const e of entries) {
+        const li = document.createElement('li');
+        const sw = document.createElement('span');
+        sw.className = 'sw';
+        sw.style.background = e.color;
+        const label = document.createElement('span');
+        label.textContent = e.label;
+        li.append(sw, label);
+        ul.append(li);
       }
-    })();
+    }
+
+    function ramp(g) {
+      if (!g) return;
+      const box = document.getElementById('ramp');
+      box.className = 'ramp';
+      const title = document.createElement('div');
+      title.textContent = g.title;
+      const bar = document.createElement('div');
+      bar.className = 'bar';
+      bar.style.background = 'linear-gradient(to right, ' + g.stops.join(', ') + ')';
+      const ends = document.createElement('div');
+      ends.className = 'ends';
+      const from = document.createElement('span');
+      from.textContent = g.from;
+      const to = document.createElement('span');
+      to.textContent = g.to;
+      ends.append(from, to);
+      box.append(title, bar, ends);
+    }
+
+    // file label paint from the fill (see --contrast)
+    function ink(d) {
+      return VIEW.labels[fillOf(d)] || { fill: THEME.fileLabel, halo: null };
+    }
+
+    function fillOf(d) {
+      if (d.data.kind === 'dir' || d.data.kind === 'link') return THEME.dirFill;
+      return d.data.kind === 'other' ? THEME.otherFill : VIEW.fills[d.data.path];
+    }
+
+    // symlinks: link nodes and whatever was reached through one
+    function strokeOf(d) {
+      if (d.data.kind === 'link' || d.data.linkTarget) return THEME.link;
+      if (d.data.kind === 'dir') return THEME.dirStroke;
+      return d.data.kind === 'other' ? THEME.muted : THEME.fileStroke;
+    }
+
+    function weightOf(d) {
+      if (d.kind === 'file' || d.kind === 'link') return VIEW.weights[d.path] || 0;
+      if (d.kind === 'other') return d.children.reduce((acc, f) => acc + (VIEW.weights[f.path] || 0), 0);
+      return 0;
+    }
+
+    // put the files of a "+N more" node back into its directory and redraw
+    function expand(snapshot, d) {
+      const siblings = d.parent.data.children;
+      siblings.splice(siblings.indexOf(d.data), 1, ...d.data.children);
+      stage.replaceChildren();
+      render(snapshot, d.parent.data.path);
+    }
+
+    function render(snapshot, focusPath) {
+      document.getElementById('title').textContent = snapshot.meta.root;
+      document.title = 'lsphere — ' + snapshot.tree.name;
+
+      // same hierarchy + pack as the static SVG
+      const root = d3
+        .hierarchy(snapshot.tree, (d) => (d.kind === 'dir' ? d.children : null))
+        .sum(weightOf);
+      root.eachAfter((n) => {
+        if (n.data.kind === 'file') n.lines = n.data.lines;
+        else
+          for (const c of n.children || [])
+            if (c.lines !== undefined) n.lines = (n.lines || 0) + c.lines;
+      });
+      d3.pack().size([VIEW.width, VIEW.height]).padding(VIEW.padding)(root);
+
+      const width = VIEW.width;
+      const height = VIEW.height;
+      const svg = d3
+        .create('svg')
+        .attr('viewBox', [-width / 2, -height / 2, width, height])
+        .on('click', () => zoom(focus.parent || root));
+
+      const node = svg
+        .append('g')
+        .selectAll('circle')
+        .data(root.descendants().slice(1))
+        .join('circle')
+        .attr('class', (d) => d.data.kind)
+        .attr('fill', fillOf)
+        .attr('stroke', strokeOf)
+        .attr('stroke-width', (d) => (d.data.kind === 'dir' || d.data.kind === 'link' || d.data.linkTarget ? THEME.strokeWidth : d.data.kind === 'other' ? 1 : THEME.strokeWidth / 2))
+        .attr('stroke-dasharray', (d) => (d.data.kind === 'other' ? '3 2' : d.data.kind === 'link' ? '1 2' : null))
+        .attr('vector-effect', 'non-scaling-stroke')
+        .on('mouseenter', (event, d) => showTip(event, d))
+        .on('mousemove', (event) => moveTip(event))
+        .on('mouseleave', hideTip)
+        .on('click', (event, d) => {
+          event.stopPropagation();
+          if (d.data.kind === 'other') {
+            hideTip();
+            expand(snapshot, d);
+          } else zoom(d.data.kind === 'dir' ? d : d.parent);
+        });
+
+      const label = svg
+        .append('g')
+        .attr('text-anchor', 'middle')
+        .selectAll('text')
+        .data(root.descendants().slice(1))
+        .join('text')
+        .attr('font-size', (d) => (d.data.kind === 'dir' ? 13 : 11))
+        .attr('fill', (d) => (d.data.kind === 'dir' ? THEME.text : ink(d).fill))
+        .attr('stroke', (d) => (d.data.kind === 'dir' ? null : ink(d).halo))
+        .attr('stroke-width', 2)
+        .attr('stroke-linejoin', 'round')
+        .attr('paint-order', 'stroke')
+        .attr('dominant-baseline', 'middle')
+        .text((d) =>
+          d.data.kind === 'other'
+            ? (VIEW.otherLabels && VIEW.otherLabels[d.data.path]) || d.data.name
+            : d.data.kind === 'link'
+              ? '↪ ' + d.data.name
+              : (VIEW.dirLabels && VIEW.dirLabels[d.data.path]) || d.data.name,
+        );
+
+      stage.append(svg.node());
+
+      let focus = root.find((n) => n.data.path === focusPath) || root;
+      let view;
+      zoomTo([focus.x, focus.y, focus.r * 2]);
+      updateCrumbs();
+
+      function zoomTo(v) {
+        const k = Math.min(width, height) / v[2];
+        view = v;
+        node
+          .attr('transform', (d) => 'translate(' + (d.x - v[0]) * k + ',' + (d.y - v[1]) * k + ')')
+          .attr('r', (d) => d.r * k);
+        label
+          .attr('transform', (d) => {
+            const dy = d.data.kind === 'dir' ? -d.r * k + 14 : 0;
+            return 'translate(' + (d.x - v[0]) * k + ',' + ((d.y - v[1]) * k + dy) + ')';
+          })
+          .style('display', (d) => (d.parent === focus && d.r * k > 18 ? null : 'none'));
+      }
+
+      function zoom(d) {
+        if (!d || d === focus) return;
+        focus = d;
+        updateCrumbs();
+        svg
+          .transition()
+          .duration(750)
+          .tween('zoom', () => {
+            const i = d3.interpolateZoom(view, [focus.x, focus.y, focus.r * 2]);
+            return (t) => zoomTo(i(t));
+          });
+      }
+
+      function updateCrumbs() {
+        crumbs.replaceChildren();
+        const chain = focus.ancestors().reverse();
+        chain.forEach((a, idx) => {
+          if (idx > 0) {
+            const sep = document.createElement('span');
+            sep.className = 'sep';
+            sep.textContent = '/';
+            crumbs.append(sep);
+          }
+          const b = document.createElement('button');
+          b.textContent = a.data.name;
+          b.disabled = a === focus;
+          b.addEventListener('click', () => zoom(a));
+          crumbs.append(b);
+        });
+      }
+    }
+
+    function showTip(event, d) {
+      const rows = [['path', d.data.path || '.']];
+      if (d.data.kind === 'other') {
+        rows.push(['merged', d.data.count + ' small files (click to expand)']);
+        rows.push(['size', formatBytes(d.data.size)]);
+      } else if (d.data.kind === 'link') {
+        rows.push(['symlink to', d.data.target]);
+        if (d.data.reason) rows.push(['not followed', d.data.reason]);
+      } else if (d.data.kind === 'file') {
+        rows.push(['size', formatBytes(d.data.size)]);
+        rows.push(['ext', d.data.ext || '(none)']);
+        if (d.data.language) rows.push(['language', d.data.language]);
+        if (d.data.category) rows.push(['category', d.data.category]);
+      } else {
+        const s = d.data.stats;
+        rows.push(['size', formatBytes(s.bytes)]);
+        rows.push(['files', String(s.files)]);
+        rows.push(['dirs', String(s.dirs)]);
+        rows.push(['depth', String(s.maxDepth)]);
+        const top = Object.entries(s.byExt)
+          .sort((a, b) => b[1].bytes - a[1].bytes)
+          .slice(0, 3)
+          .map(([ext, e]) => (ext || '(none)') + ' ' + formatBytes(e.bytes));
+        if (top.length) rows.push(['top ext', top.join(', ')]);
+      }
+      if (d.data.linkTarget) rows.push(['via symlink', d.data.linkTarget]);
+      if (d.lines !== undefined) rows.push(['lines', String(d.lines)]);
+      const git = d.data.git;
+      if (git) {
+        rows.push(['last change', git.lastCommit.slice(0, 10)]);
+        rows.push(['commits', String(git.commits)]);
+        rows.push(['author', git.author]);
+      }
+      tooltip.replaceChildren();
+      for (const [k, v] of rows) {
+        const line = document.createElement('div');
+        const key = document.createElement('span');
+        key.className = 'k';
+        key.textContent = k + ': ';
+        line.append(key, document.createTextNode(v));
+        tooltip.append(line);
+      }
+      tooltip.style.display = 'block';
+      moveTip(event);
+    }
+
+    function moveTip(event) {
+      tooltip.style.left = event.clientX + 12 + 'px';
+      tooltip.style.top = event.clientY + 12 + 'px';
+    }
+
+    function hideTip() {
+      tooltip.style.display = 'none';
+    }
+
+    async function loadSnapshot() {
+      if (INLINE_SNAPSHOT) return INLINE_SNAPSHOT;
+      const res = await fetch(JSON_PATH, { cache: 'no-store' });
+      if (!res.ok) throw new Error('HTTP ' + res.status);
+      return res.json();
+    }
+
+    try {
+      render(await loadSnapshot());
+      ramp(VIEW.gradient);
+      legend(VIEW.legend);
+    } catch (err) {
+      const box = document.createElement('div');
+      box.id = 'error';
+      box.textContent = 'Failed to load ' + JSON_PATH + ': ' + err;
+      stage.append(box);
+    }
   </script>
 </body>
 </html>`;
@@ -57,7 +361,7 @@ export function applyTemplate(
   let out = template;
   for (const [key, val] of Object.entries(vars)) {
     const token = new RegExp(`\\{\\{${escapeRegExp(key)}\\}\\}`, 'g');
-    out = out.replace(token, val);
+    out = out.replace(token, () => val); // literal: no `$&` expansion
   }
   return out;
 }
@@ -65,45 +369,53 @@ function escapeRegExp(s: string): string {
   return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
-export async function loadTemplate(
-  t: HtmlTemplate,
-  reporter: ReturnType<typeof createReporter>,
-): Promise<string> {
+/**
+ * Template source as a string. Throws when a local file cannot be read, a
+ * remote one cannot be fetched (or --no-network forbids it), or a template
+ * fails its --template-hash check.
+ */
+export async function loadTemplate(t: HtmlTemplate): Promise<string> {
   switch (t.kind) {
     case 'default':
       return DEFAULT_HTML;
-    case 'local': {
+    case 'local':
       try {
         return readFileSync(t.path, 'utf8');
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      } catch (_) {
-        reporter.error(`✖ Failed to read template file: ${t.path}`);
-        reporter.exit(5);
-        break;
+      } catch {
+        throw new IoError(`Failed to read template file: ${t.path}`);
       }
-    }
     case 'remote': {
       // Honor no-network
-      if (t.noNetwork) {
-        reporter.error('✖ --no-network forbids fetching remote templates');
-        reporter.exit(2);
-      }
+      if (t.noNetwork)
+        throw new UsageError('--no-network forbids fetching remote templates');
       // Ensure cache dir exists
-      mkdirSync(t.cacheDir, { recursive: true });
+      try {
+        mkdirSync(t.cacheDir, { recursive: true });
+      } catch (err: unknown) {
+        throw new IoError(
+          `cannot create template cache ${t.cacheDir} (${errorMessage(err)})`,
+        );
+      }
       const cacheKey = sha256Hex(t.url);
       const cachePath = join(t.cacheDir, `${cacheKey}.html`);
       // Use cache if present
       if (existsSync(cachePath)) {
-        const cached = readFileSync(cachePath, 'utf8');
-        if (t.hash && sha256Hex(cached) !== t.hash.toLowerCase()) {
-          reporter.error(
-            '✖ Cached template hash mismatch. Delete cache or provide correct --template-hash.',
+        let cached: string;
+        try {
+          cached = readFileSync(cachePath, 'utf8');
+        } catch (err: unknown) {
+          throw new IoError(
+            `cannot read cached template ${cachePath} (${errorMessage(err)})`,
           );
-          reporter.exit(2);
         }
+        if (t.hash && sha256Hex(cached) !== t.hash.toLowerCase())
+          throw new UsageError(
+            'Cached template hash mismatch. Delete cache or provide correct --template-hash.',
+          );
         return cached;
       }
       // Fetch with got
+      let html: string;
       try {
         const url = t.url.startsWith('git+') ? t.url.slice(4) : t.url;
         const res = await got.get(url, {
@@ -111,22 +423,212 @@ export async function loadTemplate(
           retry: { limit: 2 },
           followRedirect: true,
         });
-        const html = res.body;
-        if (t.hash && sha256Hex(html) !== t.hash.toLowerCase()) {
-          reporter.error(
-            '✖ Remote template hash mismatch (integrity check failed).',
-          );
-          reporter.exit(2);
-        }
+        html = res.body;
+      } catch (err: unknown) {
+        throw new IoError(
+          `Failed to fetch remote template ${t.url} (${errorMessage(err)})`,
+        );
+      }
+      if (t.hash && sha256Hex(html) !== t.hash.toLowerCase())
+        throw new UsageError(
+          'Remote template hash mismatch (integrity check failed).',
+        );
+      try {
         writeFileSync(cachePath, html, 'utf8');
-        return html;
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      } catch (_) {
-        reporter.error('Failed to fetch remote template');
-        reporter.exit(5);
+      } catch (err: unknown) {
+        throw new IoError(
+          `cannot write template cache ${cachePath} (${errorMessage(err)})`,
+        );
       }
+      return html;
+    }
+  }
+}
+
+// ---------- asset inlining (single-file HTML) ----------
+
+const ASSET_MIME: Record<string, string> = {
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+};
+
+/**
+ * Inline the relative assets a template references so the HTML works on its own.
+ * - <link rel="stylesheet" href> → <style>, <script src> → inline <script>
+ * - <img src> → data: URI
+ * - Absolute URLs (http(s), protocol-relative, data:) are left untouched.
+ * Local templates resolve against their directory, remote ones against their URL.
+ * Missing assets are reported and their reference is kept as-is.
+ */
+export async function inlineTemplateAssets(
+  html: string,
+  t: HtmlTemplate,
+  reporter: ReturnType<typeof createReporter>,
+): Promise<string> {
+  if (t.kind === 'default') return inlineViewerD3(html, reporter);
+
+  const cache = new Map<string, Buffer | null>();
+  const load = async (ref: string): Promise<Buffer | null> => {
+    if (!cache.has(ref)) cache.set(ref, await readAsset(ref, t, reporter));
+    return cache.get(ref) ?? null;
+  };
+
+  let out = html;
+
+  // stylesheets
+  for (const [tag, href] of collect(
+    out,
+    /<link\b[^>]*\brel=["']?stylesheet["']?[^>]*>/gi,
+    /\bhref=["']([^"']+)["']/i,
+  )) {
+    const buf = await load(href);
+    if (!buf) continue;
+    const css = buf.toString('utf8').replace(/<\/style/gi, '<\\/style');
+    out = out.replace(tag, () => `<style>\n${css}\n</style>`);
+  }
+
+  // scripts
+  for (const [tag, src] of collect(
+    out,
+    /<script\b[^>]*\bsrc=["'][^"']+["'][^>]*>\s*<\/script>/gi,
+    /\bsrc=["']([^"']+)["']/i,
+  )) {
+    const buf = await load(src);
+    if (!buf) continue;
+    const attrs = tag
+      .slice(0, tag.indexOf('>'))
+      .replace(/^<script/i, '')
+      .replace(/\s*\bsrc=["'][^"']+["']/i, '');
+    const js = buf.toString('utf8').replace(/<\/script/gi, '<\\/script');
+    out = out.replace(tag, () => `<script${attrs}>\n${js}\n</script>`);
+  }
+
+  // images
+  for (const [tag, src] of collect(
+    out,
+    /<img\b[^>]*>/gi,
+    /\bsrc=["']([^"']+)["']/i,
+  )) {
+    const buf = await load(src);
+    if (!buf) continue;
+    const mime = ASSET_MIME[extname(src.split(/[?#]/)[0]).toLowerCase()];
+    if (!mime) continue;
+    const uri = `data:${mime};base64,${buf.toString('base64')}`;
+    out = out.replace(tag, () => tag.replace(src, uri));
+  }
+
+  return out;
+}
+
+// The default viewer imports d3 from a CDN; inlined, it gets the d3 modules it
+// uses instead, so the page works offline. The build writes them next to the
+// bundle (scripts/viewer-d3.mjs) as UMD builds that extend a global `d3`.
+const CDN_D3_IMPORT =
+  "import * as d3 from 'https://cdn.jsdelivr.net/npm/d3@7/+esm';";
+const VIEWER_D3_FILE = 'viewer-d3.js';
+
+function inlineViewerD3(
+  html: string,
+  reporter: ReturnType<typeof createReporter>,
+): string {
+  if (!html.includes(CDN_D3_IMPORT)) return html;
+  const file = join(__dirname, VIEWER_D3_FILE);
+  let bundle: string;
+  try {
+    bundle = readFileSync(file, 'utf8').replace(/<\/script/gi, '<\\/script');
+  } catch {
+    reporter.warn(
+      `${file} not found (not a build?): the inlined viewer loads d3 from its CDN`,
+    );
+    return html;
+  }
+  return html
+    .replace(
+      '<script type="module">',
+      () => `<script>\n${bundle}\n</script>\n  <script type="module">`,
+    )
+    .replace(CDN_D3_IMPORT, 'const d3 = window.d3;');
+}
+
+// [whole tag, referenced relative url] pairs
+function collect(html: string, tagRe: RegExp, attrRe: RegExp): string[][] {
+  const pairs: string[][] = [];
+  for (const m of html.matchAll(tagRe)) {
+    const ref = attrRe.exec(m[0])?.[1];
+    if (ref && isRelativeRef(ref)) pairs.push([m[0], ref]);
+  }
+  return pairs;
+}
+
+function isRelativeRef(ref: string): boolean {
+  return !/^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(ref);
+}
+
+async function readAsset(
+  ref: string,
+  t: HtmlTemplateLocal | HtmlTemplateRemote,
+  reporter: ReturnType<typeof createReporter>,
+): Promise<Buffer | null> {
+  const clean = ref.split(/[?#]/)[0];
+  if (t.kind === 'local') {
+    const assetPath = resolvePath(dirname(t.path), clean);
+    try {
+      return readFileSync(assetPath);
+    } catch {
+      reporter.warn(`template asset not found, left as-is: ${assetPath}`);
+      return null;
     }
   }
+
+  const base = t.url.startsWith('git+') ? t.url.slice(4) : t.url;
+  const url = new URL(ref, base).toString();
+  const cachePath = join(t.cacheDir, `${sha256Hex(url)}.asset`);
+  if (existsSync(cachePath)) {
+    try {
+      return readFileSync(cachePath);
+    } catch (err: unknown) {
+      throw new IoError(
+        `cannot read cached template asset ${cachePath} (${errorMessage(err)})`,
+      );
+    }
+  }
+  if (t.noNetwork) {
+    reporter.warn(`--no-network: not fetching template asset ${url}`);
+    return null;
+  }
+  let body: Buffer;
+  try {
+    const res = await got.get(url, {
+      timeout: { request: t.timeoutMs },
+      retry: { limit: 2 },
+      followRedirect: true,
+      responseType: 'buffer',
+    });
+    body = res.body;
+  } catch {
+    reporter.warn(`failed to fetch template asset, left as-is: ${url}`);
+    return null;
+  }
+  try {
+    mkdirSync(t.cacheDir, { recursive: true });
+    writeFileSync(cachePath, body);
+  } catch (err: unknown) {
+    throw new IoError(
+      `cannot write template cache ${cachePath} (${errorMessage(err)})`,
+    );
+  }
+  return body;
 }
 
 function sha256Hex(s: string): string {
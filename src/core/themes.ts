@@ -0,0 +1,124 @@
+import { rgb } from 'd3-color';
+import type { ContrastMode } from './options';
+
+export type ThemeName = 'light' | 'dark' | 'high-contrast' | 'print';
+
+// Every color the renderers draw besides file fills. --bg overrides
+// `background` only.
+export interface Theme {
+  name: ThemeName;
+  background: string;
+  text: string; // dir labels, legend + key text
+  title: string;
+  muted: string; // size key rings, secondary viewer text
+  link: string; // viewer breadcrumbs
+  dirFill: string;
+  dirStroke: string;
+  strokeWidth: number;
+  fileStroke: string | null; // outline file circles too
+  fileLabel: string; // file label color with --contrast off
+  otherFill: string; // "+N more" circles of merged small files
+}
+
+export const THEMES: Record<ThemeName, Theme> = {
+  light: {
+    name: 'light',
+    background: '#ffffff',
+    text: '#000000',
+    title: '#333333',
+    muted: '#666666',
+    link: '#1a5fb4',
+    dirFill: '#ffffff',
+    dirStroke: '#222222',
+    strokeWidth: 1.2,
+    fileStroke: null,
+    fileLabel: '#ffffff',
+    otherFill: '#cfcfcf',
+  },
+  dark: {
+    name: 'dark',
+    background: '#16181d',
+    text: '#e6e6e6',
+    title: '#c8c8c8',
+    muted: '#8a8f98',
+    link: '#78aeed',
+    dirFill: '#22262e',
+    dirStroke: '#9aa0a8',
+    strokeWidth: 1.2,
+    fileStroke: null,
+    fileLabel: '#ffffff',
+    otherFill: '#3a3f48',
+  },
+  'high-contrast': {
+    name: 'high-contrast',
+    background: '#000000',
+    text: '#ffffff',
+    title: '#ffffff',
+    muted: '#ffffff',
+    link: '#ffff00',
+    dirFill: '#000000',
+    dirStroke: '#ffffff',
+    strokeWidth: 2,
+    fileStroke: '#ffffff',
+    fileLabel: '#ffffff',
+    otherFill: '#444444',
+  },
+  print: {
+    name: 'print',
+    background: '#ffffff',
+    text: '#000000',
+    title: '#000000',
+    muted: '#000000',
+    link: '#000000',
+    dirFill: '#ffffff',
+    dirStroke: '#000000',
+    strokeWidth: 1,
+    fileStroke: '#000000',
+    fileLabel: '#000000',
+    otherFill: '#eeeeee',
+  },
+};
+
+export const THEME_NAMES = Object.keys(THEMES) as ThemeName[];
+
+// File label paint: text color, plus an outline in the opposite color
+export interface LabelInk {
+  fill: string;
+  halo: string | null;
+}
+
+const BLACK = '#000000';
+const WHITE = '#ffffff';
+
+/**
+ * Label color for a file circle of color `fill`:
+ *  - auto: black or white, whichever contrasts more with the fill
+ *  - on:   the same, with an outline so labels also read over strokes
+ *  - off:  the theme's fixed file label color
+ */
+export function labelInk(
+  fill: string,
+  theme: Theme,
+  contrast: ContrastMode,
+): LabelInk {
+  if (contrast === 'off') return { fill: theme.fileLabel, halo: null };
+  const dark = relativeLuminance(fill) > LUMINANCE_SPLIT;
+  return {
+    fill: dark ? BLACK : WHITE,
+    halo: contrast === 'on' ? (dark ? WHITE : BLACK) : null,
+  };
+}
+
+// WCAG: black and white contrast equally with a color of this luminance
+const LUMINANCE_SPLIT = Math.sqrt(1.05 * 0.05) - 0.05;
+
+// WCAG 2 relative luminance; unparsable colors count as mid-gray
+function relativeLuminance(css: string): number {
+  const c = rgb(css);
+  if (Number.isNaN(c.r)) return LUMINANCE_SPLIT;
+  const lin = (v: number) => {
+    const s = v / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * lin(c.r) + 0.7152 * lin(c.g) + 0.0722 * lin(c.b);
+}
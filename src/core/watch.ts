@@ -0,0 +1,89 @@
+import * as fssync from 'node:fs';
+import * as path from 'node:path';
+import type { Reporter } from './reporter';
+
+// Quiet time (ms) after the last change before a batch is handed over
+export const WATCH_DEBOUNCE = 300;
+
+export interface TreeWatcher {
+  // directories to watch (POSIX, relative to the root); only used without
+  // recursive fs.watch, call again after every rescan
+  setDirs: (dirs: readonly string[]) => void;
+  close: () => void;
+}
+
+/**
+ * Watch a directory tree (--watch). Uses recursive fs.watch where the platform
+ * has it, otherwise one watcher per directory given to `setDirs`. Changed
+ * paths (POSIX, relative to the root; '' when the platform does not say which)
+ * are collected until WATCH_DEBOUNCE ms pass without one, then handed to
+ * `onChange`; paths `keep` rejects never start a batch.
+ */
+export function watchTree(
+  rootAbs: string,
+  keep: (rel: string) => boolean,
+  onChange: (changed: string[]) => void,
+  reporter: Reporter,
+): TreeWatcher {
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+
+  const record = (rel: string) => {
+    if (!keep(rel)) return;
+    pending.add(rel);
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const changed = [...pending];
+      pending.clear();
+      onChange(changed);
+    }, WATCH_DEBOUNCE);
+  };
+  const listener =
+    (base: string) => (_event: string, filename: string | Buffer | null) => {
+      if (filename === null) return record('');
+      const rel = path.join(base, filename.toString()).split(path.sep);
+      record(rel.join('/'));
+    };
+
+  const watchers = new Map<string, fssync.FSWatcher>();
+  let recursive: fssync.FSWatcher | null = null;
+  try {
+    recursive = fssync.watch(rootAbs, { recursive: true }, listener(''));
+    reporter.debug('watching recursively');
+  } catch {
+    reporter.debug('recursive fs.watch unavailable: one watcher per directory');
+  }
+
+  return {
+    setDirs(dirs) {
+      if (recursive) return;
+      const wanted = new Set(dirs);
+      for (const [rel, w] of watchers)
+        if (!wanted.has(rel)) {
+          w.close();
+          watchers.delete(rel);
+        }
+      for (const rel of wanted) {
+        if (watchers.has(rel)) continue;
+        try {
+          const w = fssync.watch(path.join(rootAbs, rel), listener(rel));
+          // a watched directory that disappears reports an error: its
+          // parent's watcher has the change already
+          w.on('error', () => {
+            w.close();
+            watchers.delete(rel);
+          });
+          watchers.set(rel, w);
+        } catch {
+          // gone since the scan; the parent reports it
+        }
+      }
+    },
+    close() {
+      clearTimeout(timer);
+      recursive?.close();
+      for (const w of watchers.values()) w.close();
+      watchers.clear();
+    },
+  };
+}
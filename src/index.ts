@@ -0,0 +1,110 @@
+/**
+ * lsphere as a library: the steps the CLI runs, without output files or
+ * process exits.
+ *
+ *   const options = resolveOptions({ depth: 3, theme: 'dark' });
+ *   const snapshot = await scan('.', options);
+ *   writeFileSync('circle.svg', renderSvg(snapshot, options));
+ *
+ * Every step takes an optional Reporter for logs; the default prints nothing.
+ * The scan cache is off unless the config enables it or names a cacheDir.
+ * Failures are thrown as LsphereErrors (UsageError, ScanError, …), never
+ * process.exit.
+ */
+import { createScanner } from './core/scan';
+import { createSnapshot } from './core/snapshot';
+import {
+  resolveOptions as resolveCliOptions,
+  type OptionIssue,
+  type Options,
+  type RawCLI,
+} from './core/options';
+import type { ConfigFile } from './core/config';
+import type { Snapshot } from './core/model';
+import { createSilentReporter, type Reporter } from './core/reporter';
+import { inlineTemplateAssets, loadTemplate } from './core/template';
+import { collapseSnapshot } from './render/collapse';
+import { renderHtmlFromSnapshot } from './render/html';
+import { renderSvgFromSnapshot } from './render/svg';
+
+export type {
+  DirNode,
+  DirStats,
+  FileNode,
+  GitInfo,
+  LinkNode,
+  OtherNode,
+  Snapshot,
+  SnapshotMeta,
+  TreeNode,
+} from './core/model';
+export type { ConfigFile } from './core/config';
+export type { OptionIssue, Options, RawCLI } from './core/options';
+export type { ExitCode, Reporter, ReporterOptions } from './core/reporter';
+export { createReporter, createSilentReporter } from './core/reporter';
+export { readSnapshot, validateSnapshot } from './core/snapshot';
+export {
+  IoError,
+  LsphereError,
+  RenderError,
+  ScanError,
+  UsageError,
+} from './core/errors';
+export { DEFAULTS } from './core/options';
+
+/**
+ * Options from CLI-style values over config values over the defaults, like
+ * the CLI resolves them; invalid values fall back and land in `issues`.
+ * Unlike the CLI, no scan cache unless `config.cache` or a `cacheDir` asks
+ * for one, so scans leave no files behind.
+ */
+export function resolveOptions(
+  raw: RawCLI = {},
+  config: ConfigFile = {},
+  issues: OptionIssue[] = [],
+): Options {
+  const cache = config.cache ?? (raw.cacheDir ?? config.cacheDir) !== undefined;
+  return resolveCliOptions(raw, { ...config, cache }, issues);
+}
+
+/** Scan a directory into a snapshot (what circle.json holds). */
+export async function scan(
+  path: string,
+  options: Options = resolveOptions(),
+  reporter: Reporter = createSilentReporter(),
+): Promise<Snapshot> {
+  const o = { ...options, targetPath: path };
+  const tree = await (await createScanner(o, reporter)).scan();
+  return createSnapshot(tree, o);
+}
+
+/** The circle-packing SVG of a snapshot, as circle.svg. */
+export function renderSvg(
+  snapshot: Snapshot,
+  options: Options = resolveOptions(),
+): string {
+  return renderSvgFromSnapshot(collapseSnapshot(snapshot, options), options);
+}
+
+/**
+ * The HTML viewer of a snapshot, as circle.html. It loads `circle.json` next
+ * to it unless `options.htmlInline` embeds the snapshot (and template assets).
+ */
+export async function renderHtml(
+  snapshot: Snapshot,
+  options: Options = resolveOptions(),
+  reporter: Reporter = createSilentReporter(),
+): Promise<string> {
+  let template = await loadTemplate(options.htmlTemplate);
+  if (options.htmlInline)
+    template = await inlineTemplateAssets(
+      template,
+      options.htmlTemplate,
+      reporter,
+    );
+  return renderHtmlFromSnapshot(
+    template,
+    collapseSnapshot(snapshot, options),
+    options,
+  );
+}
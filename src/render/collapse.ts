@@ -0,0 +1,49 @@
+import { collapseTree, expandTree } from '../core/collapse';
+import type { FileNode, Snapshot } from '../core/model';
+import type { Options } from '../core/options';
+import { createRenderStyle } from './style';
+import { layoutCanvas, packTree } from './svg';
+
+/**
+ * Merge small files into "+N more" nodes for huge trees:
+ *  - --max-children: directories keep their largest entries, one slot goes
+ *    to the merged rest
+ *  - --min-radius: files that would be drawn smaller than that many px
+ * Starts from the expanded tree, so re-rendering a collapsed snapshot applies
+ * the current settings only.
+ */
+export function collapseSnapshot(
+  snapshot: Snapshot,
+  options: Options,
+): Snapshot {
+  const { maxChildren, minRadius } = options;
+  let tree = expandTree(snapshot.tree);
+  if (maxChildren === null && minRadius <= 0) return { ...snapshot, tree };
+
+  const style = createRenderStyle({ ...snapshot, tree }, options);
+  const largestFirst = (a: FileNode, b: FileNode) =>
+    style.weightOf(b) - style.weightOf(a) || b.size - a.size;
+
+  if (maxChildren !== null)
+    tree = collapseTree(tree, (dir) => {
+      if (dir.children.length <= maxChildren) return [];
+      const files = dir.children.filter((c) => c.kind === 'file');
+      const keep = maxChildren - (dir.children.length - files.length) - 1;
+      return files.sort(largestFirst).slice(Math.max(0, keep));
+    });
+
+  if (minRadius > 0) {
+    const { pack } = layoutCanvas(options, style);
+    const packed = packTree(tree, style, pack, options.canvas.padding);
+    const small = new Set<FileNode>();
+    for (const leaf of packed.leaves())
+      if (leaf.data.kind === 'file' && leaf.r < minRadius) small.add(leaf.data);
+    tree = collapseTree(tree, (dir) =>
+      dir.children.filter(
+        (c): c is FileNode => c.kind === 'file' && small.has(c),
+      ),
+    );
+  }
+
+  return { ...snapshot, tree };
+}
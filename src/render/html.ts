@@ -0,0 +1,114 @@
+import type { Snapshot, TreeNode } from '../core/model';
+import type { Options } from '../core/options';
+import { applyTemplate } from '../core/template';
+import { formatDirStats } from '../core/stats';
+import { labelInk, type LabelInk, type Theme } from '../core/themes';
+import { layoutCanvas } from './svg';
+import {
+  createRenderStyle,
+  otherLabel,
+  type LegendEntry,
+  type LegendGradient,
+} from './style';
+
+type Node = TreeNode;
+
+// Everything the viewer needs to reproduce the SVG encoding client-side.
+export interface ViewerModel {
+  width: number;
+  height: number;
+  padding: number;
+  // merged files ("+N more") included, so the viewer can expand them
+  weights: Record<string, number>; // file (or link) path -> pack weight
+  fills: Record<string, string>; // file path -> fill color
+  legend: LegendEntry[];
+  gradient: LegendGradient | null;
+  theme: Theme;
+  labels: Record<string, LabelInk>; // fill color -> file label paint
+  dirLabels: Record<string, string> | null; // dir path -> label (--dir-stats)
+  otherLabels: Record<string, string>; // "+N more" path -> label
+}
+
+export function buildViewerModel(
+  snapshot: Snapshot,
+  options: Options,
+): ViewerModel {
+  const style = createRenderStyle(snapshot, options);
+  const weights: Record<string, number> = {};
+  const fills: Record<string, string> = {};
+  const labels: Record<string, LabelInk> = {};
+  const dirLabels: Record<string, string> = {};
+  const otherLabels: Record<string, string> = {};
+  (function walk(n: Node) {
+    if (n.kind === 'file') {
+      const fill = style.colorOf(n);
+      weights[n.path] = style.weightOf(n);
+      fills[n.path] = fill;
+      labels[fill] ??= labelInk(fill, options.theme, options.contrast);
+    } else if (n.kind === 'link') {
+      weights[n.path] = style.weightOf(n);
+      const fill = options.theme.dirFill;
+      labels[fill] ??= labelInk(fill, options.theme, options.contrast);
+    } else {
+      if (n.kind === 'other') {
+        const fill = options.theme.otherFill;
+        labels[fill] ??= labelInk(fill, options.theme, options.contrast);
+        otherLabels[n.path] = otherLabel(n, options.sizeBy);
+      } else if (options.dirStats)
+        dirLabels[n.path] = `${n.name} — ${formatDirStats(n.stats)}`;
+      for (const c of n.children) walk(c);
+    }
+  })(snapshot.tree);
+
+  const { pack } = layoutCanvas(options, style);
+  return {
+    width: pack.width,
+    height: pack.height,
+    padding: options.canvas.padding,
+    weights,
+    fills,
+    legend: style.legend,
+    gradient: style.gradient,
+    theme: options.theme,
+    labels,
+    dirLabels: options.dirStats ? dirLabels : null,
+    otherLabels,
+  };
+}
+
+/**
+ * Fill an HTML template for a snapshot.
+ * With options.htmlInline the snapshot travels inside the page: templates that
+ * use {{SNAPSHOT}} get it as script-safe JSON, and {{JSON_PATH}} becomes a
+ * data: URL so templates that only fetch() it keep working from file://.
+ */
+export function renderHtmlFromSnapshot(
+  template: string,
+  snapshot: Snapshot,
+  options: Options,
+): string {
+  const inline = options.htmlInline;
+  const usesSnapshotVar = template.includes('{{SNAPSHOT}}');
+  const jsonPath =
+    inline && !usesSnapshotVar
+      ? `data:application/json;base64,${Buffer.from(JSON.stringify(snapshot)).toString('base64')}`
+      : 'circle.json';
+
+  return applyTemplate(template, {
+    JSON_PATH: jsonPath,
+    SNAPSHOT: inline ? toScriptJson(snapshot) : 'null',
+    BG: options.bgColor,
+    PALETTE: options.palette.name,
+    VIEW: toScriptJson(buildViewerModel(snapshot, options)),
+  });
+}
+
+// JSON that is safe to drop inside an inline <script> block
+export function toScriptJson(value: unknown): string {
+  return JSON.stringify(value)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
@@ -0,0 +1,19 @@
+import { Resvg } from '@resvg/resvg-js';
+import { errorMessage, RenderError } from '../core/errors';
+
+/**
+ * Rasterize an SVG string to PNG bytes.
+ * Pure Rust renderer (resvg): no browser, no network, works headless.
+ * `scale` multiplies the SVG's intrinsic width/height (2 = retina-ish).
+ */
+export function renderPngFromSvg(svg: string, scale: number): Buffer {
+  try {
+    const resvg = new Resvg(svg, {
+      fitTo: { mode: 'zoom', value: scale },
+      font: { loadSystemFonts: true, defaultFontFamily: 'sans-serif' },
+    });
+    return resvg.render().asPng();
+  } catch (err: unknown) {
+    throw new RenderError(`cannot rasterize PNG (${errorMessage(err)})`);
+  }
+}
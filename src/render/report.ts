@@ -0,0 +1,233 @@
+import { flatChildren } from '../core/collapse';
+import type { DirNode, FileNode, LinkNode } from '../core/model';
+import { formatBytes } from '../core/metrics';
+import type { ReportFormat } from '../core/options';
+
+type Node = DirNode | FileNode | LinkNode;
+
+// Text summary of a scanned tree (--report); shares are fractions of all bytes
+export interface Report {
+  root: string;
+  totals: { bytes: number; files: number; dirs: number; maxDepth: number };
+  largestFiles: { path: string; bytes: number; share: number }[];
+  largestDirs: { path: string; bytes: number; files: number; share: number }[];
+  // top extensions by bytes; the rest folded into one "(other)" row
+  extensions: { ext: string; bytes: number; files: number; share: number }[];
+  // entries per level below the root (1 = direct children)
+  depths: { depth: number; files: number; dirs: number; bytes: number }[];
+}
+
+const NO_EXT = '(none)';
+const OTHER_EXTS = '(other)';
+
+export function buildReport(tree: DirNode, top: number): Report {
+  const { bytes, files, dirs, maxDepth } = tree.stats;
+  const share = (b: number) => (bytes > 0 ? b / bytes : 0);
+
+  const allFiles: FileNode[] = [];
+  const allDirs: DirNode[] = [];
+  const depths = new Map<number, Report['depths'][number]>();
+  (function walk(n: Node, depth: number) {
+    if (n.kind === 'link') return; // not followed: nothing to count
+    if (depth > 0) {
+      const row = depths.get(depth) ?? { depth, files: 0, dirs: 0, bytes: 0 };
+      depths.set(depth, row);
+      if (n.kind === 'file') {
+        row.files++;
+        row.bytes += n.size;
+      } else row.dirs++;
+    }
+    if (n.kind === 'file') allFiles.push(n);
+    else {
+      if (depth > 0) allDirs.push(n);
+      for (const c of flatChildren(n)) walk(c, depth + 1);
+    }
+  })(tree, 0);
+
+  const exts = Object.entries(tree.stats.byExt)
+    .map(([ext, e]) => ({ ext: ext || NO_EXT, ...e, share: share(e.bytes) }))
+    .sort(descending((e) => e.bytes));
+  const extensions = exts.slice(0, top);
+  const rest = exts.slice(top);
+  if (rest.length) {
+    const b = rest.reduce((acc, e) => acc + e.bytes, 0);
+    extensions.push({
+      ext: OTHER_EXTS,
+      bytes: b,
+      files: rest.reduce((acc, e) => acc + e.files, 0),
+      share: share(b),
+    });
+  }
+
+  return {
+    root: tree.name,
+    totals: { bytes, files, dirs, maxDepth },
+    largestFiles: allFiles
+      .sort(descending((f) => f.size))
+      .slice(0, top)
+      .map((f) => ({ path: f.path, bytes: f.size, share: share(f.size) })),
+    largestDirs: allDirs
+      .sort(descending((d) => d.stats.bytes))
+      .slice(0, top)
+      .map((d) => ({
+        path: d.path,
+        bytes: d.stats.bytes,
+        files: d.stats.files,
+        share: share(d.stats.bytes),
+      })),
+    extensions,
+    depths: [...depths.values()].sort((a, b) => a.depth - b.depth),
+  };
+}
+
+export function formatReport(report: Report, format: ReportFormat): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(report, null, 2)}\n`;
+    case 'csv':
+      return toCsv(report);
+    case 'markdown':
+      return toMarkdown(report);
+    case 'table':
+      return toTable(report);
+  }
+}
+
+// ---------- formats ----------
+
+// A titled table with display-ready cells. The first column and unnamed ones
+// (bars) are left-aligned, numbers right-aligned.
+interface Section {
+  title: string;
+  head: string[];
+  rows: string[][];
+}
+
+function sections(r: Report): Section[] {
+  const maxFiles = Math.max(1, ...r.depths.map((d) => d.files + d.dirs));
+  return [
+    {
+      title: `Largest files (top ${r.largestFiles.length})`,
+      head: ['path', 'size', 'share'],
+      rows: r.largestFiles.map((f) => [
+        f.path,
+        formatBytes(f.bytes),
+        percent(f.share),
+      ]),
+    },
+    {
+      title: `Largest directories (top ${r.largestDirs.length})`,
+      head: ['path', 'size', 'files', 'share'],
+      rows: r.largestDirs.map((d) => [
+        `${d.path}/`,
+        formatBytes(d.bytes),
+        String(d.files),
+        percent(d.share),
+      ]),
+    },
+    {
+      title: 'Extensions',
+      head: ['ext', 'size', 'files', 'share'],
+      rows: r.extensions.map((e) => [
+        e.ext,
+        formatBytes(e.bytes),
+        String(e.files),
+        percent(e.share),
+      ]),
+    },
+    {
+      title: 'Depth histogram',
+      head: ['depth', 'files', 'dirs', 'size', ''],
+      rows: r.depths.map((d) => [
+        String(d.depth),
+        String(d.files),
+        String(d.dirs),
+        formatBytes(d.bytes),
+        '█'.repeat(
+          Math.max(1, Math.round((20 * (d.files + d.dirs)) / maxFiles)),
+        ),
+      ]),
+    },
+  ];
+}
+
+function leftAligned(s: Section, column: number): boolean {
+  return column === 0 || s.head[column] === '';
+}
+
+function headline(r: Report): string {
+  const t = r.totals;
+  return `${r.root}: ${formatBytes(t.bytes)} in ${t.files} files, ${t.dirs} directories, ${t.maxDepth} levels deep`;
+}
+
+function toTable(r: Report): string {
+  const out = [headline(r)];
+  for (const s of sections(r)) {
+    out.push('', s.title);
+    const widths = s.head.map((h, i) =>
+      Math.max(h.length, ...s.rows.map((row) => row[i].length)),
+    );
+    const line = (cells: string[]) =>
+      cells
+        .map((c, i) =>
+          leftAligned(s, i) ? c.padEnd(widths[i]) : c.padStart(widths[i]),
+        )
+        .join('  ')
+        .trimEnd();
+    out.push(`  ${line(s.head)}`);
+    for (const row of s.rows) out.push(`  ${line(row)}`);
+  }
+  return `${out.join('\n')}\n`;
+}
+
+function toMarkdown(r: Report): string {
+  const out = [`**${escapeMd(headline(r))}**`];
+  for (const s of sections(r)) {
+    out.push(
+      '',
+      `### ${s.title}`,
+      '',
+      `| ${s.head.join(' | ')} |`,
+      `| ${s.head.map((_, i) => (leftAligned(s, i) ? '---' : '---:')).join(' | ')} |`,
+      ...s.rows.map((row) => `| ${row.map(escapeMd).join(' | ')} |`),
+    );
+  }
+  return `${out.join('\n')}\n`;
+}
+
+// One table for every section; raw numbers (bytes, shares as fractions)
+function toCsv(r: Report): string {
+  const rows: (string | number)[][] = [
+    ['section', 'name', 'bytes', 'files', 'dirs', 'share'],
+  ];
+  for (const f of r.largestFiles)
+    rows.push(['file', f.path, f.bytes, 1, '', round(f.share)]);
+  for (const d of r.largestDirs)
+    rows.push(['dir', d.path, d.bytes, d.files, '', round(d.share)]);
+  for (const e of r.extensions)
+    rows.push(['ext', e.ext, e.bytes, e.files, '', round(e.share)]);
+  for (const d of r.depths)
+    rows.push(['depth', d.depth, d.bytes, d.files, d.dirs, '']);
+  return `${rows.map((row) => row.map(csvCell).join(',')).join('\n')}\n`;
+}
+
+function descending<T>(key: (x: T) => number) {
+  return (a: T, b: T) => key(b) - key(a);
+}
+
+function percent(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+function round(share: number): number {
+  return Math.round(share * 1e6) / 1e6;
+}
+
+function csvCell(v: string | number): string {
+  const s = String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function escapeMd(s: string): string {
+  return s.replace(/([\\|*_`])/g, '\\$1');
+}
@@ -0,0 +1,364 @@
+import { hierarchy } from 'd3-hierarchy';
+import { scaleOrdinal } from 'd3-scale';
+import { interpolateRdBu, interpolateYlOrRd } from 'd3-scale-chromatic';
+import {
+  CHANGE_KINDS,
+  type ChangeKind,
+  type DiffEntry,
+  type SnapshotDiff,
+} from '../core/diff';
+import type {
+  Snapshot,
+  FileNode,
+  LinkNode,
+  OtherNode,
+  TreeNode,
+} from '../core/model';
+import { childrenOf } from '../core/collapse';
+import {
+  createWeightScale,
+  formatBytes,
+  formatMetric,
+  metricValue,
+  type SizeMetric,
+} from '../core/metrics';
+import { createClassifier } from '../core/languages';
+import type { Options } from '../core/options';
+import { paletteColors } from '../core/palettes';
+
+type Node = TreeNode;
+
+export interface LegendEntry {
+  label: string;
+  color: string;
+}
+
+// Continuous color ramp, left (`from`) → right (`to`)
+export interface LegendGradient {
+  title: string;
+  stops: string[]; // evenly spaced colors
+  from: string;
+  to: string;
+}
+
+// Shared visual encoding for every renderer (SVG, HTML viewer): how much a file
+// weighs in the pack layout and which color it gets. A "+N more" node weighs
+// what its merged files would.
+export interface RenderStyle {
+  weightOf: (leaf: FileNode | OtherNode | LinkNode) => number;
+  colorOf: (file: FileNode) => string;
+  legend: LegendEntry[]; // sorted by label
+  gradient: LegendGradient | null; // sequential color modes
+  // weight → metric label, for the size key (null when sizes carry no metric)
+  sizeLabel: ((weight: number) => string) | null;
+}
+
+export function createRenderStyle(
+  snapshot: Snapshot,
+  options: Options,
+): RenderStyle {
+  const { sizeBy } = options;
+
+  // dynamic range of file sizes (or line counts), compressed by options.scale
+  let sMin = Infinity;
+  let sMax = 1;
+  (function walk(n: Node) {
+    if (n.kind === 'file') {
+      const v = Math.max(1, metricValue(n, sizeBy));
+      sMin = Math.min(sMin, v);
+      sMax = Math.max(sMax, v);
+    } else for (const c of childrenOf(n)) walk(c);
+  })(snapshot.tree);
+  if (!Number.isFinite(sMin)) sMin = 1;
+  sMax = Math.max(sMin + 1, sMax);
+
+  // relative weights for pack()
+  const weight = createWeightScale(
+    options.scale,
+    [sMin, sMax],
+    [options.minWeight, options.maxWeight],
+  );
+
+  // uniform: every child gets an equal slice of its parent's share
+  const shares = new Map<FileNode | LinkNode, number>();
+  if (sizeBy === 'uniform') {
+    (function split(n: Node, share: number) {
+      if (n.kind === 'file' || n.kind === 'link') shares.set(n, share);
+      else for (const c of n.children) split(c, share / n.children.length);
+    })(snapshot.tree, 1);
+  }
+
+  function weightOf(leaf: FileNode | OtherNode | LinkNode): number {
+    if (leaf.kind === 'other')
+      return leaf.children.reduce((acc, f) => acc + weightOf(f), 0);
+    switch (sizeBy) {
+      case 'files':
+        return 1;
+      case 'uniform':
+        return shares.get(leaf) ?? 0;
+      default:
+        // links have no size of their own: drawn at the smallest weight
+        return leaf.kind === 'link'
+          ? options.minWeight
+          : weight(Math.max(1, metricValue(leaf, sizeBy)));
+    }
+  }
+
+  // Assign up front in breadth-first order so every renderer sees the same
+  // colors and the legend is complete before layout (merged files included:
+  // the viewer can expand them).
+  const files: FileNode[] = [];
+  for (const n of hierarchy<Node>(snapshot.tree, (d) =>
+    childrenOf(d),
+  ).descendants()) {
+    if (n.data.kind === 'file') files.push(n.data);
+  }
+  const colorer = createColorer(snapshot, options, files);
+  const fileColors = new Map<FileNode, string>();
+  for (const f of files) fileColors.set(f, colorer.assign(f));
+
+  return {
+    weightOf,
+    colorOf: (file) => fileColors.get(file) ?? colorer.assign(file),
+    legend: colorer.legend(),
+    gradient: colorer.gradient,
+    sizeLabel:
+      sizeBy === 'bytes' || sizeBy === 'lines'
+        ? (w) => formatMetric(weight.invert(w), sizeBy)
+        : null,
+  };
+}
+
+// Label of a "+N more" node: its merged total in the --size-by metric
+// (files and uniform count files, which the name already does)
+export function otherLabel(node: OtherNode, sizeBy: SizeMetric): string {
+  if (sizeBy !== 'bytes' && sizeBy !== 'lines') return node.name;
+  const total = node.children.reduce(
+    (acc, f) => acc + metricValue(f, sizeBy),
+    0,
+  );
+  return `${node.name} · ${formatMetric(total, sizeBy)}`;
+}
+
+/**
+ * Style for a diff rendering: sizes as usual over the merged tree (removed
+ * files keep their old size), colors by change type or size delta.
+ */
+export function createDiffStyle(
+  diff: SnapshotDiff,
+  snapshot: Snapshot,
+  options: Options,
+): RenderStyle {
+  const base = createRenderStyle(snapshot, options);
+  const changed = new Map<string, DiffEntry>();
+  for (const e of diff.entries) if (e.kind === 'file') changed.set(e.path, e);
+  const changeOf = (f: FileNode): ChangeKind =>
+    changed.get(f.path)?.change ?? 'unchanged';
+
+  if (options.diffColor === 'change') {
+    const present = new Set<ChangeKind>();
+    (function walk(n: Node) {
+      if (n.kind === 'file') present.add(changeOf(n));
+      else for (const c of childrenOf(n)) walk(c);
+    })(snapshot.tree);
+    return {
+      ...base,
+      colorOf: (file) => CHANGE_COLORS[changeOf(file)],
+      legend: CHANGE_KINDS.filter((c) => present.has(c)).map((c) => ({
+        label: c,
+        color: CHANGE_COLORS[c],
+      })),
+      gradient: null,
+    };
+  }
+
+  // delta: blue (shrunk) → red (grown), log-compressed; unchanged stays gray
+  let maxAbs = 1;
+  for (const e of changed.values())
+    maxAbs = Math.max(maxAbs, Math.abs(e.delta));
+  const at = (t: number) => interpolateRdBu(0.5 - t / 2);
+  return {
+    ...base,
+    colorOf(file) {
+      const delta = changed.get(file.path)?.delta ?? 0;
+      if (delta === 0) return CHANGE_COLORS.unchanged;
+      return at(
+        (Math.sign(delta) * Math.log1p(Math.abs(delta))) / Math.log1p(maxAbs),
+      );
+    },
+    legend: [{ label: 'unchanged', color: CHANGE_COLORS.unchanged }],
+    gradient: {
+      title: 'size change',
+      stops: Array.from({ length: GRADIENT_STOPS }, (_, i) =>
+        at((2 * i) / (GRADIENT_STOPS - 1) - 1),
+      ),
+      from: `-${formatBytes(maxAbs)}`,
+      to: `+${formatBytes(maxAbs)}`,
+    },
+  };
+}
+
+const CHANGE_COLORS: Record<ChangeKind, string> = {
+  added: '#1a9641',
+  removed: '#d7191c',
+  grown: '#fdae61',
+  shrunk: '#74add1',
+  unchanged: '#d9d9d9',
+};
+
+// ---------- color modes ----------
+
+interface Colorer {
+  assign: (file: FileNode) => string;
+  legend: () => LegendEntry[];
+  gradient: LegendGradient | null;
+}
+
+// Files without git history (untracked, or outside the repo)
+const NO_HISTORY = '#c8c8c8';
+const NO_HISTORY_LABEL = '(no history)';
+// Key of files without an extension (Makefile, LICENSE, …) in ext mode
+const NO_EXT = '(none)';
+const GRADIENT_STOPS = 11;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createColorer(
+  snapshot: Snapshot,
+  options: Options,
+  files: FileNode[],
+): Colorer {
+  switch (options.colorBy) {
+    case 'ext':
+      return categoricalColorer(
+        options,
+        files,
+        (f) => f.ext || NO_EXT,
+        (f) =>
+          f.ext && options.extColors[f.ext] ? options.extColors[f.ext] : null,
+      );
+    case 'language':
+    case 'category': {
+      const classifier = createClassifier(
+        options.languages,
+        options.categories,
+      );
+      const mode = options.colorBy;
+      return categoricalColorer(
+        options,
+        files,
+        (f) => f[mode] ?? classifier.classify(f)[mode],
+        () => null,
+      );
+    }
+    case 'author':
+      return categoricalColorer(
+        options,
+        files,
+        (f) => f.git?.author ?? null,
+        () => null,
+      );
+    case 'age':
+    case 'churn':
+      return sequentialColorer(snapshot, options.colorBy);
+  }
+}
+
+// Ordinal palette over a key; files without a key (author) get the
+// no-history gray and stay out of the palette.
+// Categories are known up front so ramps and `auto` fit their count.
+function categoricalColorer(
+  options: Options,
+  files: FileNode[],
+  keyOf: (file: FileNode) => string | null,
+  overrideOf: (file: FileNode) => string | null,
+): Colorer {
+  const keys = new Set<string>();
+  for (const f of files) {
+    const key = overrideOf(f) ? null : keyOf(f);
+    if (key) keys.add(key);
+  }
+  const scale = scaleOrdinal<string, string>()
+    .domain([...keys]) // first seen, first color
+    .range(paletteColors(options.palette, keys.size));
+  const seen = new Map<string, string>();
+  let missing = false;
+
+  return {
+    // Stable categorical colors by key, first seen first
+    assign(file) {
+      const override = overrideOf(file);
+      if (override) return override;
+      const key = keyOf(file);
+      if (key) {
+        const color = scale(key);
+        seen.set(key, color);
+        return color;
+      }
+      missing = true;
+      return NO_HISTORY;
+    },
+    legend: () => {
+      const entries = Array.from(seen.entries())
+        .sort()
+        .map(([label, color]) => ({ label, color }));
+      if (missing) entries.push({ label: NO_HISTORY_LABEL, color: NO_HISTORY });
+      return entries;
+    },
+    gradient: null,
+  };
+}
+
+// Heat ramp (pale → dark red): recently changed files / frequently changed
+// files are hot. Age is sqrt-compressed, churn log-compressed.
+function sequentialColorer(snapshot: Snapshot, mode: 'age' | 'churn'): Colorer {
+  const now = Date.parse(snapshot.meta.generatedAt) || Date.now();
+  const ageOf = (f: FileNode) =>
+    f.git ? Math.max(0, (now - Date.parse(f.git.lastCommit)) / DAY_MS) : null;
+
+  let max = 0;
+  (function walk(n: Node) {
+    if (n.kind === 'file') {
+      const v = mode === 'age' ? ageOf(n) : (n.git?.commits ?? null);
+      if (v !== null) max = Math.max(max, v);
+    } else for (const c of childrenOf(n)) walk(c);
+  })(snapshot.tree);
+
+  const heat = (f: FileNode): number | null => {
+    if (!f.git) return null;
+    if (mode === 'age') {
+      const days = ageOf(f) ?? 0;
+      return max > 0 ? 1 - Math.sqrt(days / max) : 1;
+    }
+    return max > 1 ? Math.log(f.git.commits) / Math.log(max) : 1;
+  };
+
+  let missing = false;
+  const gradient: LegendGradient = {
+    title: mode === 'age' ? 'last change' : 'commits',
+    stops: Array.from({ length: GRADIENT_STOPS }, (_, i) =>
+      interpolateYlOrRd(i / (GRADIENT_STOPS - 1)),
+    ),
+    from: mode === 'age' ? formatAge(max) : '1',
+    to: mode === 'age' ? 'today' : String(Math.max(1, max)),
+  };
+
+  return {
+    assign(file) {
+      const t = heat(file);
+      if (t === null) {
+        missing = true;
+        return NO_HISTORY;
+      }
+      return interpolateYlOrRd(t);
+    },
+    legend: () =>
+      missing ? [{ label: NO_HISTORY_LABEL, color: NO_HISTORY }] : [],
+    gradient,
+  };
+}
+
+function formatAge(days: number): string {
+  if (days >= 365) return `${(days / 365).toFixed(1)} years ago`;
+  if (days >= 1) return `${Math.round(days)} days ago`;
+  return `${Math.max(1, Math.round(days * 24))} hours ago`;
+}
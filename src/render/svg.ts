@@ -1,66 +1,173 @@
-import { hierarchy, pack } from 'd3-hierarchy';
-import { scaleLog, scaleOrdinal } from 'd3-scale';
-import type { Snapshot, DirNode, FileNode } from '../core/model';
+import { hierarchy, pack, type HierarchyCircularNode } from 'd3-hierarchy';
+import type { Snapshot, DirNode, TreeNode } from '../core/model';
+import { errorMessage, LsphereError, RenderError } from '../core/errors';
 import type { Options } from '../core/options';
-import { pickD3Scheme } from '../core/palettes';
+import { formatDirStats } from '../core/stats';
+import { labelInk, type Theme } from '../core/themes';
+import {
+  createRenderStyle,
+  type LegendEntry,
+  otherLabel,
+  type LegendGradient,
+  type RenderStyle,
+} from './style';
+
+type Node = TreeNode;
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CanvasLayout {
+  width: number;
+  height: number;
+  titleY: number;
+  pack: Box; // area handed to pack()
+  legend: Box | null; // color swatches
+  sizeKey: Box | null; // reference circles for sizes
+  gradient: Box | null; // continuous color ramp
+}
+
+// legend geometry
+const SW = 12; // swatch size
+const GAP = 8; // gap between swatch and text
+const ROW = 18; // row height (vertical spacing)
+const LEGEND_FONT = 12;
+const LEGEND_PAD = 12; // space between the pack area and the legend
+const TITLE_BAND = 48; // room for the title above the pack area
+const KEY_R = 24; // largest reference circle in the size key
+const KEY_W = 2 * KEY_R + GAP + estimateTextWidth('123456 lines', LEGEND_FONT);
+const KEY_H = ROW + 2 * KEY_R; // heading + circles
+const GRAD_W = 140; // color ramp width
+const GRAD_BAR = 10; // color ramp thickness
+const GRAD_H = ROW + GRAD_BAR + ROW; // heading + bar + end labels
+
+/**
+ * Split the canvas into title band, pack area and legend panel.
+ * The legend is sized from its widest label and its fixed-size blocks (size
+ * key, color ramp); the HTML viewer reuses the pack box so both layouts match.
+ */
+export function layoutCanvas(
+  options: Options,
+  style: Pick<RenderStyle, 'legend' | 'sizeLabel' | 'gradient'>,
+): CanvasLayout {
+  const { width, height, margin, legend: placement } = options.canvas;
+  const { legend } = style;
+  const top = margin + TITLE_BAND;
+  const innerW = Math.max(1, width - 2 * margin);
+  const innerH = Math.max(1, height - top - margin);
+  const titleY = Math.max(24, top * 0.55);
+  const blocks = [
+    { name: 'sizeKey', w: KEY_W, h: KEY_H, on: style.sizeLabel !== null },
+    { name: 'gradient', w: GRAD_W, h: GRAD_H, on: style.gradient !== null },
+  ].filter((b) => b.on);
+  const placed: Record<string, Box> = {};
+
+  const itemW =
+    SW +
+    GAP +
+    Math.max(0, ...legend.map((e) => estimateTextWidth(e.label, LEGEND_FONT)));
+
+  if (placement === 'none' || (legend.length === 0 && !blocks.length)) {
+    return {
+      width,
+      height,
+      titleY,
+      pack: { x: margin, y: top, width: innerW, height: innerH },
+      legend: null,
+      sizeKey: null,
+      gradient: null,
+    };
+  }
+
+  if (placement === 'bottom') {
+    // swatches flow in rows on the left, blocks line up at the right end
+    const blocksW = blocks.reduce((acc, b) => acc + b.w + 2 * GAP, 0);
+    const entriesW = Math.max(1, innerW - blocksW);
+    const colW = itemW + 2 * GAP;
+    const cols = Math.max(1, Math.floor(entriesW / colW));
+    const legendH = Math.max(
+      Math.ceil(legend.length / cols) * ROW,
+      ...blocks.map((b) => b.h),
+    );
+    const packH = Math.max(1, innerH - legendH - LEGEND_PAD);
+    const y = top + packH + LEGEND_PAD;
+    let bx = margin + entriesW;
+    for (const b of blocks) {
+      placed[b.name] = { x: bx + 2 * GAP, y, width: b.w, height: b.h };
+      bx += b.w + 2 * GAP;
+    }
+    return {
+      width,
+      height,
+      titleY,
+      pack: { x: margin, y: top, width: innerW, height: packH },
+      legend: { x: margin, y, width: entriesW, height: legendH },
+      sizeKey: placed.sizeKey ?? null,
+      gradient: placed.gradient ?? null,
+    };
+  }
 
-type Node = DirNode | FileNode;
+  // right: blocks stacked on top, swatches bottom-anchored below them
+  const legendW = Math.ceil(Math.max(itemW, ...blocks.map((b) => b.w)));
+  const packW = Math.max(1, innerW - legendW - LEGEND_PAD);
+  const x = margin + packW + LEGEND_PAD;
+  let by = top;
+  for (const b of blocks) {
+    placed[b.name] = { x, y: by, width: b.w, height: b.h };
+    by += b.h + GAP;
+  }
+  return {
+    width,
+    height,
+    titleY,
+    pack: { x: margin, y: top, width: packW, height: innerH },
+    legend: { x, y: top, width: legendW, height: innerH },
+    sizeKey: placed.sizeKey ?? null,
+    gradient: placed.gradient ?? null,
+  };
+}
 
 export function renderSvgFromSnapshot(
   snapshot: Snapshot,
   options: Options,
+  style?: RenderStyle,
+): string {
+  try {
+    return drawSvg(
+      snapshot,
+      options,
+      style ?? createRenderStyle(snapshot, options),
+    );
+  } catch (err: unknown) {
+    throw err instanceof LsphereError
+      ? err
+      : new RenderError(`cannot render SVG (${errorMessage(err)})`);
+  }
+}
+
+function drawSvg(
+  snapshot: Snapshot,
+  options: Options,
+  style: RenderStyle,
 ): string {
-  // canvas + margins (room for title)
-  const W = 1000;
-  const H = 900;
-  const margin = { top: 72, right: 24, bottom: 24, left: 24 };
-  const innerW = W - margin.left - margin.right;
-  const innerH = H - margin.top - margin.bottom;
-  const padding = 2;
   const layerCircles: string[] = [];
   const layerFileLabels: string[] = [];
   const layerDirLabels: { r: number; chunk: string }[] = [];
-  const extColorMap = new Map<string, string>();
-
-  // hierarchy over union
-  const root = hierarchy<Node>(snapshot.tree as Node, (d) =>
-    d.kind === 'dir' ? (d.children as Node[]) : null,
+  const canvas = layoutCanvas(options, style);
+  const { theme } = options;
+
+  // layout inside the pack area
+  const packed = packTree(
+    snapshot.tree,
+    style,
+    canvas.pack,
+    options.canvas.padding,
   );
 
-  // log-compress dynamic range of file sizes
-  const sizes: number[] = [];
-  (function walk(n: Node) {
-    if (n.kind === 'file') sizes.push(Math.max(1, n.size));
-    else for (const c of n.children) walk(c as Node);
-  })(snapshot.tree as Node);
-
-  const sMin = sizes.length ? Math.max(1, Math.min(...sizes)) : 1;
-  const sMax = sizes.length ? Math.max(sMin + 1, Math.max(...sizes)) : sMin + 1;
-
-  const weight = scaleLog<number, number>()
-    .domain([sMin, sMax])
-    .range([1, 100]) // relative weights for pack()
-    .clamp(true);
-
-  root.sum((d) => (d.kind === 'file' ? weight(Math.max(1, d.size)) : 0));
-
-  const scheme = pickD3Scheme(options.palette);
-  const fileColorScale = scaleOrdinal<string, string>()
-    .domain([]) // domain grows dynamically
-    .range(scheme);
-  // Stable categorical colors by extension (fallback to filename)
-  function colorForFile(ext: string | undefined, name: string): string {
-    if (ext && options.extColors[ext]) return options.extColors[ext];
-    const key = ext && ext.length ? ext : name;
-    const color = fileColorScale(key);
-    if (ext) extColorMap.set(ext, color);
-    return color;
-  }
-
-  // layout inside inner area
-  const layout = pack<Node>().size([innerW, innerH]).padding(padding);
-  const packed = layout(root);
-
   for (const node of packed.descendants()) {
     if (node.depth === 0) continue; // skip enclosing root circle
 
@@ -68,10 +175,11 @@ export function renderSvgFromSnapshot(
     const name = node.data.name;
 
     if (node.data.kind === 'dir') {
-      // directory: white fill, dark stroke, arched label on top of rim
-      const stroke = '#222';
-      const strokeWidth = 1.2;
-      const fill = '#fff';
+      // directory: themed fill + stroke, arched label on top of rim
+      // (link-colored rim when reached through a followed symlink)
+      const stroke = node.data.linkTarget ? theme.link : theme.dirStroke;
+      const strokeWidth = theme.strokeWidth;
+      const fill = theme.dirFill;
 
       // base circle: fill only (no full stroke)
       layerCircles.push(
@@ -81,10 +189,19 @@ export function renderSvgFromSnapshot(
       if (r > 12) {
         const fontSize = clamp(9, 14, r / 4);
         const labelPad = 10; // px each side
-        const gapPx = estimateTextWidth(name, fontSize) + 2 * labelPad;
-
         // circumference + dash split for a top gap (where the text will go)
         const C = 2 * Math.PI * r;
+
+        // totals only when they fit in the gap, the name alone otherwise
+        const withStats = options.dirStats
+          ? `${name} — ${formatDirStats(node.data.stats)}`
+          : name;
+        const label =
+          estimateTextWidth(withStats, fontSize) + 2 * labelPad <= C * 0.45
+            ? withStats
+            : name;
+        const gapPx = estimateTextWidth(label, fontSize) + 2 * labelPad;
+
         const gapClamped = Math.min(
           Math.max(gapPx, 10),
           Math.max(C * 0.45, 10),
@@ -112,74 +229,63 @@ export function renderSvgFromSnapshot(
 
         const labelChunk = [
           `    <defs><path id="${arcId}" d="M ${fmt(x0)} ${fmt(y0)} A ${fmt(r)} ${fmt(r)} 0 0 1 ${fmt(x1)} ${fmt(y1)}"/></defs>`,
-          `    <text font-family="sans-serif" font-size="${fontSize}" fill="#000">`,
-          `      <textPath href="#${arcId}" startOffset="50%" text-anchor="middle">${escapeXml(name)}</textPath>`,
+          `    <text font-family="sans-serif" font-size="${fontSize}" fill="${theme.text}">`,
+          `      <textPath href="#${arcId}" startOffset="50%" text-anchor="middle">${escapeXml(label)}</textPath>`,
           `    </text>`,
         ].join('\n');
         layerDirLabels.push({ r, chunk: labelChunk });
       }
-    } else if (node.data.kind === 'file') {
-      // file: colored fill (placeholder), label inside if big enough
-      const fill = colorForFile(node.data.ext, name); // NEW: D3 palette + overrides
-
+    } else {
+      // file: colored fill, label inside if big enough
+      // "+N more": neutral fill, dashed outline, label with the merged total
+      // symlink (not followed): dir fill, dotted link-colored outline
+      const leaf = node.data;
+      const fill =
+        leaf.kind === 'other'
+          ? theme.otherFill
+          : leaf.kind === 'link'
+            ? theme.dirFill
+            : style.colorOf(leaf);
+
+      const outline =
+        leaf.kind === 'other'
+          ? ` stroke="${theme.muted}" stroke-width="1" stroke-dasharray="3 2"`
+          : leaf.kind === 'link' || leaf.linkTarget
+            ? ` stroke="${theme.link}" stroke-width="${theme.strokeWidth}"${leaf.kind === 'link' ? ' stroke-dasharray="1 2"' : ''}`
+            : theme.fileStroke
+              ? ` stroke="${theme.fileStroke}" stroke-width="${theme.strokeWidth / 2}"`
+              : '';
       layerCircles.push(
-        `    <circle cx="${fmt(x)}" cy="${fmt(y)}" r="${fmt(r)}" fill="${fill}" />`,
+        `    <circle cx="${fmt(x)}" cy="${fmt(y)}" r="${fmt(r)}" fill="${fill}"${outline} />`,
       );
 
       if (r > 12) {
         const fs = clamp(8, 13, r / 3.5);
+        const ink = labelInk(fill, theme, options.contrast);
+        const halo = ink.halo
+          ? ` stroke="${ink.halo}" stroke-width="2" stroke-linejoin="round" paint-order="stroke"`
+          : '';
         layerFileLabels.push(
-          `    <text x="${fmt(x)}" y="${fmt(y)}" text-anchor="middle" dominant-baseline="middle" font-family="sans-serif" font-size="${fs}" fill="#fff">${escapeXml(name)}</text>`,
+          `    <text x="${fmt(x)}" y="${fmt(y)}" text-anchor="middle" dominant-baseline="middle" font-family="sans-serif" font-size="${fs}" fill="${ink.fill}"${halo}>${escapeXml(leafLabel(leaf, options))}</text>`,
         );
       }
     }
   }
 
-  // Legend panel sits immediately after the Pack packed area
-  const LEGEND_W = 100;
-  const W2 = W + LEGEND_W;
-
-  const SW = 12; // swatch size
-  const GAP = 8; // gap between swatch and text
-  const ROW = 18; // row height (vertical spacing)
-
-  const r = SW / 2;
-
-  // Bottom-anchored so items fill bottom → top
-  const legendBottom = H - margin.bottom;
-  const legendLeft = W - 100;
-
-  const entries = Array.from(extColorMap.entries()).sort(); // your sort choice
-  const count = entries.length;
-
-  const legendGroup: string[] = ['  <g class="legend">'];
-  for (let idx = 0; idx < count; idx++) {
-    const [ext, color] = entries[idx];
-    const y = legendBottom - (count - 1 - idx) * ROW;
-
-    legendGroup.push(
-      // each row in its own group for clean positioning
-      `    <g transform="translate(${fmt(legendLeft)}, ${fmt(y)})">`,
-      // swatch as a circle, vertically centered on y
-      `      <circle cx="${fmt(r)}" cy="0" r="${fmt(r)}" fill="${color}" />`,
-      // label aligned to middle vertically
-      `      <text x="${fmt(SW + GAP)}" y="0" font-family="sans-serif" font-size="12"`,
-      `            dominant-baseline="middle" fill="#000">${escapeXml(ext)}</text>`,
-      `    </g>`,
-    );
-  }
-  legendGroup.push('  </g>');
+  const legendGroup = renderLegend(style.legend, options, canvas.legend);
+  legendGroup.push(...renderSizeKey(packed, style, options, canvas.sizeKey));
+  legendGroup.push(...renderGradient(style.gradient, theme, canvas.gradient));
 
   // Build the SVG
   const svg: string[] = [
     `<?xml version="1.0" encoding="UTF-8"?>`,
-    `<svg xmlns="http://www.w3.org/2000/svg" width="${W2}" height="${H}" viewBox="0 0 ${W2} ${H}">`,
-    `  <rect width="${W2}" height="${H}" fill="${options.bgColor}" />`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${canvas.width}" height="${canvas.height}" viewBox="0 0 ${canvas.width} ${canvas.height}">`,
+    `  <rect width="${canvas.width}" height="${canvas.height}" fill="${options.bgColor}" />`,
     // title (top-left)
-    `  <text x="${margin.left}" y="${Math.max(24, margin.top * 0.55)}" font-family="sans-serif" font-size="18" fill="#333">`,
+    `  <text x="${canvas.pack.x}" y="${fmt(canvas.titleY)}" font-family="sans-serif" font-size="18" fill="${theme.title}">`,
     `    ${escapeXml(snapshot.meta.root)}`,
     `  </text>`,
-    `  <g transform="translate(${margin.left},${margin.top})">`,
+    `  <g transform="translate(${fmt(canvas.pack.x)},${fmt(canvas.pack.y)})">`,
   ];
 
   svg.push(
@@ -197,6 +303,145 @@ export function renderSvgFromSnapshot(
   return svg.join('\n');
 }
 
+/**
+ * Circle-pack a tree into `area` with the style's weights. A "+N more" node is
+ * one leaf weighing what its merged files do (like the viewer packs it), so
+ * only directories have children here; tree walks use childrenOf.
+ */
+export function packTree(
+  tree: DirNode,
+  style: Pick<RenderStyle, 'weightOf'>,
+  area: { width: number; height: number },
+  padding: number,
+): HierarchyCircularNode<Node> {
+  const root = hierarchy<Node>(tree, (d) =>
+    d.kind === 'dir' ? d.children : null,
+  );
+  root.sum((d) => (d.kind === 'dir' ? 0 : style.weightOf(d)));
+  return pack<Node>().size([area.width, area.height]).padding(padding)(root);
+}
+
+// Right: one column, bottom-anchored so items fill bottom → top.
+// Bottom: rows left → right under the pack area.
+function renderLegend(
+  entries: LegendEntry[],
+  options: Options,
+  box: Box | null,
+): string[] {
+  if (!box) return [];
+  const r = SW / 2;
+  const count = entries.length;
+  const colW =
+    SW +
+    GAP +
+    Math.max(
+      0,
+      ...entries.map((e) => estimateTextWidth(e.label, LEGEND_FONT)),
+    ) +
+    2 * GAP;
+  const grid = options.canvas.legend === 'bottom';
+  const cols = grid ? Math.max(1, Math.floor(box.width / colW)) : 1;
+
+  const legendGroup: string[] = ['  <g class="legend">'];
+  for (let idx = 0; idx < count; idx++) {
+    const { label, color } = entries[idx];
+    const x = box.x + (idx % cols) * colW;
+    const y = grid
+      ? box.y + Math.floor(idx / cols) * ROW + ROW / 2
+      : box.y + box.height - (count - 1 - idx) * ROW;
+
+    legendGroup.push(
+      // each row in its own group for clean positioning
+      `    <g transform="translate(${fmt(x)}, ${fmt(y)})">`,
+      // swatch as a circle, vertically centered on y
+      `      <circle cx="${fmt(r)}" cy="0" r="${fmt(r)}" fill="${color}" />`,
+      // label aligned to middle vertically
+      `      <text x="${fmt(SW + GAP)}" y="0" font-family="sans-serif" font-size="${LEGEND_FONT}"`,
+      `            dominant-baseline="middle" fill="${options.theme.text}">${escapeXml(label)}</text>`,
+      `    </g>`,
+    );
+  }
+  legendGroup.push('  </g>');
+  return legendGroup;
+}
+
+// Nested reference circles drawn at the same scale as the pack, so readers can
+// compare areas. Radii KEY_R, KEY_R/2, KEY_R/4 are mapped back to metric values.
+function renderSizeKey(
+  packed: HierarchyCircularNode<Node>,
+  style: RenderStyle,
+  options: Options,
+  box: Box | null,
+): string[] {
+  const { sizeLabel } = style;
+  const { theme } = options;
+  if (!box || !sizeLabel) return [];
+
+  // pack() gives every leaf r = k * sqrt(value)
+  const leaf = packed.leaves().find((l) => (l.value ?? 0) > 0 && l.r > 0);
+  if (!leaf) return [];
+  const k = leaf.r / Math.sqrt(leaf.value ?? 1);
+
+  const seen = new Set<string>();
+  const keys: { r: number; label: string }[] = [];
+  for (const target of [KEY_R, KEY_R / 2, KEY_R / 4]) {
+    const w = clamp(options.minWeight, options.maxWeight, (target / k) ** 2);
+    const label = sizeLabel(w);
+    if (seen.has(label)) continue;
+    seen.add(label);
+    keys.push({ r: k * Math.sqrt(w), label });
+  }
+
+  const cx = box.x + KEY_R;
+  const baseline = box.y + ROW + 2 * KEY_R;
+  const out: string[] = [
+    '  <g class="size-key">',
+    `    <text x="${fmt(box.x)}" y="${fmt(box.y + ROW / 2)}" font-family="sans-serif" font-size="${LEGEND_FONT}"`,
+    `          dominant-baseline="middle" fill="${theme.text}">size</text>`,
+  ];
+  for (const { r, label } of keys) {
+    const top = baseline - 2 * r;
+    out.push(
+      `    <circle cx="${fmt(cx)}" cy="${fmt(baseline - r)}" r="${fmt(r)}" fill="none" stroke="${theme.muted}" />`,
+      `    <line x1="${fmt(cx)}" y1="${fmt(top)}" x2="${fmt(cx + KEY_R + GAP / 2)}" y2="${fmt(top)}" stroke="${theme.muted}" stroke-dasharray="2 2" />`,
+      `    <text x="${fmt(cx + KEY_R + GAP)}" y="${fmt(top)}" font-family="sans-serif" font-size="${LEGEND_FONT - 2}"`,
+      `          dominant-baseline="middle" fill="${theme.text}">${escapeXml(label)}</text>`,
+    );
+  }
+  out.push('  </g>');
+  return out;
+}
+
+// Horizontal color ramp with its end labels underneath
+function renderGradient(
+  gradient: LegendGradient | null,
+  theme: Theme,
+  box: Box | null,
+): string[] {
+  if (!gradient || !box) return [];
+  const id = 'legend-gradient';
+  const last = Math.max(1, gradient.stops.length - 1);
+  const barY = box.y + ROW;
+  const labelY = barY + GRAD_BAR + ROW / 2;
+  return [
+    '  <g class="color-ramp">',
+    `    <defs><linearGradient id="${id}" x1="0" x2="1" y1="0" y2="0">`,
+    ...gradient.stops.map(
+      (c, i) =>
+        `      <stop offset="${fmt((i / last) * 100)}%" stop-color="${c}" />`,
+    ),
+    '    </linearGradient></defs>',
+    `    <text x="${fmt(box.x)}" y="${fmt(box.y + ROW / 2)}" font-family="sans-serif" font-size="${LEGEND_FONT}"`,
+    `          dominant-baseline="middle" fill="${theme.text}">${escapeXml(gradient.title)}</text>`,
+    `    <rect x="${fmt(box.x)}" y="${fmt(barY)}" width="${fmt(box.width)}" height="${GRAD_BAR}" fill="url(#${id})" />`,
+    `    <text x="${fmt(box.x)}" y="${fmt(labelY)}" font-family="sans-serif" font-size="${LEGEND_FONT - 2}"`,
+    `          dominant-baseline="middle" fill="${theme.text}">${escapeXml(gradient.from)}</text>`,
+    `    <text x="${fmt(box.x + box.width)}" y="${fmt(labelY)}" font-family="sans-serif" font-size="${LEGEND_FONT - 2}"`,
+    `          dominant-baseline="middle" text-anchor="end" fill="${theme.text}">${escapeXml(gradient.to)}</text>`,
+    '  </g>',
+  ];
+}
+
 // heuristics/utilities
 function estimateTextWidth(text: string, fontSize: number): number {
   return fontSize * 0.5 * text.length; // decent sans-serif heuristic
@@ -220,6 +465,10 @@ function escapeXml(s: string): string {
             : '&#39;',
   );
 }
+function leafLabel(leaf: Exclude<Node, DirNode>, options: Options): string {
+  if (leaf.kind === 'other') return otherLabel(leaf, options.sizeBy);
+  return leaf.kind === 'link' ? `↪ ${leaf.name}` : leaf.name;
+}
 function safeId(node: import('d3-hierarchy').HierarchyNode<Node>): string {
   return node
     .ancestors()